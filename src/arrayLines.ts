@@ -0,0 +1,131 @@
+import type { Node } from 'jsonc-parser'
+import type { EscapeSettings } from './escapeUtils'
+import type { TextReplacement } from './jsonUtils'
+import { DEFAULT_ESCAPE_SETTINGS, encodeJsonString, resolveEscapeOptions, updateJsonStringLiteral } from './escapeUtils'
+
+export const DEFAULT_ARRAY_LINE_FIELD_NAMES = ['script', 'code', 'lines']
+
+/**
+ * Get the lines of an array of strings edited as one block
+ * @param node Array node
+ * @returns Element values, or undefined if the array is empty or holds anything but single-line strings
+ */
+export function getArrayLines(node: Node): string[] | undefined {
+  if (node.type !== 'array' || !node.children?.length) {
+    return undefined
+  }
+
+  const lines: string[] = []
+  for (const child of node.children) {
+    // A line break inside an element couldn't be told apart from one between elements
+    if (child.type !== 'string' || /[\r\n]/.test(child.value)) {
+      return undefined
+    }
+    lines.push(child.value)
+  }
+  return lines
+}
+
+/**
+ * Remove a single line break at the end of edited text, it ends the last element instead of starting another
+ * e.g. the final newline editors insert on save
+ * @param value Edited text
+ * @returns Text without the final line break
+ */
+export function trimFinalLineBreak(value: string): string {
+  return value.replace(/(?:\r\n|\r|\n)$/, '')
+}
+
+/**
+ * Split edited text into array elements, any kind of line ending ends an element
+ * @param value Edited text, a final line break doesn't add an empty element
+ * @returns Element values, at least one
+ */
+export function splitArrayLines(value: string): string[] {
+  return trimFinalLineBreak(value).split(/\r\n|\r|\n/)
+}
+
+/**
+ * Find the text to put between inserted elements, following the layout of the array
+ */
+function getElementSeparator(text: string, elements: Node[], arrayOffset: number): string {
+  // Reuse a separator without comments, e.g. ",\n    " for one element per line
+  for (let index = 1; index < elements.length; index++) {
+    const previous = elements[index - 1]
+    const separator = text.slice(previous.offset + previous.length, elements[index].offset)
+    if (/^\s*,\s*$/.test(separator)) {
+      return separator
+    }
+  }
+
+  // A single element on its own line gets the next one below it
+  const leading = text.slice(arrayOffset + 1, elements[0].offset)
+  const lineBreak = leading.match(/(?:\r\n|\r|\n)[ \t]*$/)
+  return lineBreak ? `,${lineBreak[0]}` : ', '
+}
+
+/**
+ * Create a replacement that writes edited lines back into an array of strings
+ * Unchanged elements at both ends, separators and comments between replaced elements are kept,
+ * and replaced elements keep the escapes of their unchanged parts
+ * @param text Document text
+ * @param node Array node whose elements are single-line strings
+ * @param newValue Edited text, split into elements at line breaks
+ * @param escapeSettings How to escape changed elements
+ * @returns Replacement covering the changed elements
+ */
+export function createArrayLinesReplacement(text: string, node: Node, newValue: string, escapeSettings: EscapeSettings = DEFAULT_ESCAPE_SETTINGS): TextReplacement {
+  const elements = node.children ?? []
+  const oldLines = elements.map(element => String(element.value))
+  const newLines = splitArrayLines(newValue)
+  const getLiteral = (element: Node): string => text.slice(element.offset, element.offset + element.length)
+  const getEnd = (element: Node): number => element.offset + element.length
+
+  let prefixLength = 0
+  while (prefixLength < oldLines.length && prefixLength < newLines.length && oldLines[prefixLength] === newLines[prefixLength]) {
+    prefixLength++
+  }
+  let suffixLength = 0
+  while (
+    suffixLength < oldLines.length - prefixLength
+    && suffixLength < newLines.length - prefixLength
+    && oldLines[oldLines.length - 1 - suffixLength] === newLines[newLines.length - 1 - suffixLength]
+  ) {
+    suffixLength++
+  }
+
+  const removed = elements.slice(prefixLength, elements.length - suffixLength)
+  const added = newLines.slice(prefixLength, newLines.length - suffixLength)
+  if (elements.length === 0 || (removed.length === 0 && added.length === 0)) {
+    return { offset: node.offset, length: 0, content: '' }
+  }
+
+  // Replaced elements keep the separators between them, further elements use the separator of the array
+  const separator = getElementSeparator(text, elements, node.offset)
+  const insertOptions = resolveEscapeOptions(getLiteral(removed[0] ?? elements[0]), escapeSettings)
+  const content = added.map((line, index) => {
+    if (index >= removed.length) {
+      return `${separator}${encodeJsonString(line, insertOptions)}`
+    }
+    const literal = getLiteral(removed[index])
+    const before = index > 0 ? text.slice(getEnd(removed[index - 1]), removed[index].offset) : ''
+    return `${before}${updateJsonStringLiteral(literal, line, resolveEscapeOptions(literal, escapeSettings))}`
+  }).join('')
+
+  if (removed.length > 0 && added.length > 0) {
+    // Removed elements beyond the replaced ones are dropped together with their separators
+    const start = removed[0].offset
+    return { offset: start, length: getEnd(removed[removed.length - 1]) - start, content }
+  }
+  if (removed.length === 0) {
+    // Insert after the unchanged start, or in front of the unchanged end
+    return prefixLength > 0
+      ? { offset: getEnd(elements[prefixLength - 1]), length: 0, content }
+      : { offset: elements[0].offset, length: 0, content: `${content.slice(separator.length)}${separator}` }
+  }
+
+  // Remove the elements with the separator in front of them, or after them at the start of the array
+  return prefixLength > 0
+    ? { offset: getEnd(elements[prefixLength - 1]), length: getEnd(removed[removed.length - 1]) - getEnd(elements[prefixLength - 1]), content: '' }
+    : { offset: removed[0].offset, length: elements[removed.length].offset - removed[0].offset, content: '' }
+}
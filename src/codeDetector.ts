@@ -1,7 +1,14 @@
-import type { JSONVisitor, ParseError } from 'jsonc-parser'
-import { parseTree, visit } from 'jsonc-parser'
+import type { JSONPath, Node } from 'jsonc-parser'
+import type { StringFragment } from './jsonUtils'
+import type { JSONSchema, StringSchemaInfo } from './schemaUtils'
+import type { DetectionDocument } from './sourceDocument'
+import { findNodeAtOffset, getNodePath } from 'jsonc-parser'
 import * as vscode from 'vscode'
+import { DEFAULT_ARRAY_LINE_FIELD_NAMES, getArrayLines } from './arrayLines'
+import { createValueOffsetMap, isPropertyKey, locateStringTarget, parseJsonTree, segmentsToKeyPath, toValueOffset } from './jsonUtils'
+import { createLanguageRuleLookup } from './languageRules'
 import { logger } from './logger'
+import { getStringSchemaInfo, SchemaLoader } from './schemaUtils'
 
 export interface CodeBlockInfo {
   code: string
@@ -9,34 +16,57 @@ export interface CodeBlockInfo {
   end: number
   range: vscode.Range
   fieldName: string
-  keyPath: string // Complete JSON key path, e.g. "config.database.script"
+  path: JSONPath // Path segments identifying the string, e.g. ["config", "database", "script"]
+  keyPath: string // Readable form of path shown to users, e.g. "config.database.script"
   language?: string // Optional language identifier
+  arrayLines?: boolean // Whether the block is an array of single-line strings edited as lines, start and end then cover the array
+  fragment?: StringFragment // Part of the string edited on its own, code then holds only this part while start and end still cover the literal
+}
+
+/**
+ * Get the field names whose arrays of strings are edited as lines
+ * @returns Lowercase field names
+ */
+function getArrayLineFieldNames(document: DetectionDocument): Set<string> {
+  const fieldNames = vscode.workspace.getConfiguration('vscode-json-string-code-editor', document.uri)
+    .get<string[]>('arrayLines.fieldNames', DEFAULT_ARRAY_LINE_FIELD_NAMES)
+  return new Set(fieldNames.map(name => name.toLowerCase()))
+}
+
+/**
+ * Get the path of the strings a schema describes for a block, the elements for arrays edited as lines
+ */
+function getSchemaPath(block: CodeBlockInfo): JSONPath {
+  return block.arrayLines ? [...block.path, 0] : block.path
 }
 
 export class CodeDetector {
+  private schemaLoader = new SchemaLoader()
+
   constructor() {
     // Removed configuration-related initialization
   }
 
-  async detectCodeAtPosition(document: vscode.TextDocument, position: vscode.Position): Promise<CodeBlockInfo | null> {
+  async detectCodeAtPosition(document: DetectionDocument, position: vscode.Position): Promise<CodeBlockInfo | null> {
     const text = document.getText()
     const offset = document.offsetAt(position)
 
     try {
-      // Use jsonc-parser to parse JSON, supports comments and fault tolerance
-      const parseErrors: ParseError[] = []
-      const parsed = parseTree(text, parseErrors, {
-        allowTrailingComma: true,
-        allowEmptyContent: true,
-        disallowComments: false,
-      })
-
-      if (parsed) {
-        return await this.findCodeInObjectWithAST(text, offset, document)
+      const result = this.findCodeAtOffset(text, offset, document)
+      if (!result) {
+        return null
+      }
+
+      // The document's schema may say the string isn't code, or which language it holds
+      const schema = await this.schemaLoader.getSchema(document)
+      const schemaInfo = schema ? getStringSchemaInfo(schema, getSchemaPath(result)) : undefined
+      if (!this.isCodeField(result.fieldName, schemaInfo)) {
+        return null
       }
 
-      // If parsing fails, try partial parsing
-      return await this.findCodeInPartialJson(text, offset, document)
+      // Strings matched by a language rule or annotated in the schema open without asking for a language
+      result.language = createLanguageRuleLookup(document)(result.path) ?? schemaInfo?.language
+      return result
     }
     catch (error) {
       logger.error(`Error detecting code at position: ${error}`)
@@ -44,188 +74,200 @@ export class CodeDetector {
     }
   }
 
-  private async findCodeInObjectWithAST(text: string, offset: number, document: vscode.TextDocument): Promise<CodeBlockInfo | null> {
-    let result: CodeBlockInfo | null = null
-    let currentProperty: string | null = null
-    const pathStack: string[] = [] // Used to track JSON path
-    let currentDepth = 0 // Track object nesting depth
-    let arrayDepth = 0 // Track array nesting depth
-    const pendingDetections: Array<{ fieldName: string, value: string, valueOffset: number, valueLength: number, fullPath: string }> = []
-
-    const visitor: JSONVisitor = {
-      onObjectBegin: () => {
-        currentDepth++
-      },
-      onObjectProperty: (property: string) => {
-        // When encountering a new property at the same object level,
-        // need to pop the previous property first
-        // The target depth for properties should be currentDepth - 1 + arrayDepth
-        const targetStackLength = currentDepth - 1 + arrayDepth
-        while (pathStack.length > targetStackLength) {
-          pathStack.pop()
-        }
-        currentProperty = property
-        pathStack.push(property)
-      },
-      onObjectEnd: () => {
-        // Pop the last property when exiting object
-        if (pathStack.length > 0) {
-          pathStack.pop()
-        }
-        currentDepth--
-        currentProperty = null
-      },
-      onArrayBegin: () => {
-        // Track array index in path
-        arrayDepth++
-        // Push array index marker
-        pathStack.push(`[${0}]`)
-      },
-      onArrayEnd: () => {
-        // Clean up array indices in path stack when exiting array
-        while (pathStack.length > 0 && pathStack[pathStack.length - 1].startsWith('[')) {
-          pathStack.pop()
-        }
-        arrayDepth--
-      },
-      onLiteralValue: (value: any, valueOffset: number, valueLength: number) => {
-        if (typeof value === 'string' && currentProperty && this.isCodeField(currentProperty)) {
-          const fullPath = pathStack.join('.')
-          pendingDetections.push({
-            fieldName: currentProperty,
-            value,
-            valueOffset,
-            valueLength,
-            fullPath,
-          })
-        }
-      },
-      onSeparator: (sep: string) => {
-        // Track array element separators to update array index
-        if (sep === ',' && arrayDepth > 0 && pathStack.length > 0) {
-          const lastItem = pathStack[pathStack.length - 1]
-          if (lastItem.startsWith('[')) {
-            // Increment array index
-            const currentIndex = Number.parseInt(lastItem.slice(1, -1), 10)
-            pathStack[pathStack.length - 1] = `[${currentIndex + 1}]`
-          }
-        }
-      },
+  /**
+   * Detect the array of single-line strings around a position, to edit it as lines
+   * Unlike detectCodeAtPosition, this works for arrays of any field
+   * @param document Document containing the array
+   * @param position Position inside the array
+   * @returns Array block, or null if the innermost array around the position holds anything but single-line strings
+   */
+  async detectArrayLinesAtPosition(document: DetectionDocument, position: vscode.Position): Promise<CodeBlockInfo | null> {
+    const root = parseJsonTree(document.getText())
+    let node = root && findNodeAtOffset(root, document.offsetAt(position), true)
+    while (node && node.type !== 'array') {
+      node = node.parent
+    }
+
+    const result = node ? this.createArrayLinesBlock(node, document) : null
+    if (result) {
+      result.language = createLanguageRuleLookup(document)(result.path)
     }
+    return result
+  }
 
-    visit(text, visitor)
+  /**
+   * Detect the part of a string value a selection covers, to edit it on its own
+   * Selections starting or ending inside an escape sequence take the whole character it is decoded to
+   * @param document Document containing the string
+   * @param selection Selection inside a single string literal
+   * @returns Block editing the selected part, the plain string block if the whole value is selected,
+   * or null if the selection is empty, leaves the string or is in an array edited as lines
+   */
+  async detectSelectedFragment(document: DetectionDocument, selection: vscode.Selection): Promise<CodeBlockInfo | null> {
+    if (selection.isEmpty) {
+      return null
+    }
 
-    // Check which detected code block contains the target offset
-    for (const detection of pendingDetections) {
-      const { fieldName, value, valueOffset, valueLength, fullPath } = detection
+    const result = await this.detectCodeAtPosition(document, selection.start)
+    const startOffset = document.offsetAt(selection.start)
+    const endOffset = document.offsetAt(selection.end)
+    if (!result || result.arrayLines || endOffset > result.end) {
+      return null
+    }
 
-      if (offset >= valueOffset && offset <= valueOffset + valueLength) {
-        const unescapedCode = this.unescapeString(value)
-        const range = new vscode.Range(
-          document.positionAt(valueOffset),
-          document.positionAt(valueOffset + valueLength),
-        )
+    const text = document.getText()
+    const target = locateStringTarget(text, result.path, result.code, { start: result.start, end: result.end })
+    if (!target) {
+      return null
+    }
+    const offsetMap = createValueOffsetMap(text, target.node)
+    const value = target.value
+    let start = toValueOffset(offsetMap, startOffset)
+    let end = Math.min(toValueOffset(offsetMap, endOffset - 1) + 1, value.length)
 
-        result = {
-          code: unescapedCode,
-          start: valueOffset,
-          end: valueOffset + valueLength,
-          range,
-          fieldName,
-          keyPath: fullPath,
-        }
-        break
-      }
+    // Never split a surrogate pair, its halves couldn't be written back on their own
+    if (start > 0 && /[\uDC00-\uDFFF]/.test(value[start]) && /[\uD800-\uDBFF]/.test(value[start - 1])) {
+      start--
+    }
+    if (end < value.length && /[\uD800-\uDBFF]/.test(value[end - 1]) && /[\uDC00-\uDFFF]/.test(value[end])) {
+      end++
     }
 
-    return result
+    if (start >= end) {
+      return null
+    }
+    if (start === 0 && end === value.length) {
+      return result
+    }
+    return { ...result, code: value.slice(start, end), fragment: { start, end, value } }
   }
 
-  private async findCodeInPartialJson(text: string, offset: number, document: vscode.TextDocument): Promise<CodeBlockInfo | null> {
-    // Use regular expression to find string values
-    const stringRegex = /"(?:[^"\\]|\\.)*"/g
-    let match: RegExpExecArray | null
-
-    // eslint-disable-next-line no-cond-assign
-    while ((match = stringRegex.exec(text)) !== null) {
-      const matchStart = match.index
-      const matchEnd = matchStart + match[0].length
-
-      // Check if offset is within this string
-      if (offset >= matchStart && offset <= matchEnd) {
-        // Try to find field name
-        const beforeString = text.substring(0, matchStart)
-        const fieldMatch = beforeString.match(/"([^"]+)"\s*:\s*$/)
-
-        if (fieldMatch) {
-          const fieldName = fieldMatch[1]
-
-          if (this.isCodeField(fieldName)) {
-            const stringValue = match[0].slice(1, -1) // Remove quotes
-            const unescapedCode = this.unescapeString(stringValue)
-            const range = new vscode.Range(
-              document.positionAt(matchStart),
-              document.positionAt(matchEnd),
-            )
-
-            return {
-              code: unescapedCode,
-              start: matchStart,
-              end: matchEnd,
-              range,
-              fieldName,
-              keyPath: fieldName,
+  /**
+   * Detect all code strings of a document in a single pass
+   * String values are taken as parsed, array elements use the name of their enclosing property
+   * Arrays of single-line strings of the fields in arrayLines.fieldNames are detected as one block
+   * @param document Document to scan
+   * @returns Code blocks in document order
+   */
+  async detectAllCodeBlocks(document: DetectionDocument): Promise<CodeBlockInfo[]> {
+    const root = parseJsonTree(document.getText())
+    if (!root) {
+      return []
+    }
+
+    const schema: JSONSchema | undefined = await this.schemaLoader.getSchema(document)
+    const blocks: CodeBlockInfo[] = []
+    const getRuleLanguage = createLanguageRuleLookup(document)
+    const arrayLineFieldNames = getArrayLineFieldNames(document)
+    const walk = (node: Node, path: JSONPath, fieldName: string | undefined): void => {
+      switch (node.type) {
+        case 'object':
+          for (const property of node.children ?? []) {
+            const [key, value] = property.children ?? []
+            if (key && value) {
+              walk(value, [...path, key.value], key.value)
             }
           }
+          break
+        case 'array': {
+          const block = fieldName && arrayLineFieldNames.has(fieldName.toLowerCase()) ? this.createArrayLinesBlock(node, document) : null
+          const schemaInfo = schema && block ? getStringSchemaInfo(schema, getSchemaPath(block)) : undefined
+          if (block && this.isCodeField(block.fieldName, schemaInfo)) {
+            block.language = getRuleLanguage(path) ?? schemaInfo?.language
+            blocks.push(block)
+            break
+          }
+          node.children?.forEach((child, index) => walk(child, [...path, index], fieldName))
+          break
+        }
+        case 'string': {
+          const schemaInfo = schema && fieldName ? getStringSchemaInfo(schema, path) : undefined
+          if (fieldName && this.isCodeField(fieldName, schemaInfo)) {
+            blocks.push({
+              code: node.value,
+              start: node.offset,
+              end: node.offset + node.length,
+              range: new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length)),
+              fieldName,
+              path,
+              keyPath: segmentsToKeyPath(path),
+              language: getRuleLanguage(path) ?? schemaInfo?.language,
+            })
+          }
+          break
         }
       }
     }
+    walk(root, [], undefined)
 
-    return null
+    return blocks
   }
 
-  private isCodeField(_fieldName: string): boolean {
-    // Now supports all string fields because users can select language
-    return true
+  /**
+   * Find the string value containing an offset
+   * Elements of arrays edited as lines give the whole array
+   * Works in documents with syntax errors, e.g. while a file is being written, as the parser recovers from them
+   */
+  private findCodeAtOffset(text: string, offset: number, document: DetectionDocument): CodeBlockInfo | null {
+    const root = parseJsonTree(text)
+    const node = root && findNodeAtOffset(root, offset, true)
+    if (!node) {
+      return null
+    }
+
+    const array = node.type === 'array' ? node : node.parent?.type === 'array' ? node.parent : undefined
+    const arrayBlock = array && this.createArrayLinesBlock(array, document)
+    if (arrayBlock && getArrayLineFieldNames(document).has(arrayBlock.fieldName.toLowerCase())) {
+      return arrayBlock
+    }
+
+    if (node.type !== 'string' || isPropertyKey(node)) {
+      return null
+    }
+
+    // Array elements use the name of their enclosing property
+    const path = getNodePath(node)
+    const fieldName = path.filter(segment => typeof segment === 'string').pop()
+    if (!fieldName || !this.isCodeField(fieldName)) {
+      return null
+    }
+
+    return {
+      code: node.value,
+      start: node.offset,
+      end: node.offset + node.length,
+      range: new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length)),
+      fieldName,
+      path,
+      keyPath: segmentsToKeyPath(path),
+    }
   }
 
-  private unescapeString(str: string): string {
-    return str.replace(/\\(.)/g, (match, char) => {
-      switch (char) {
-        case '"': return '"'
-        case '\\': return '\\'
-        case '/': return '/'
-        case 'b': return '\b'
-        case 'f': return '\f'
-        case 'n': return '\n'
-        case 'r': return '\r'
-        case 't': return '\t'
-        case 'u': {
-          // Handle Unicode escape sequences \uXXXX
-          const nextFour = str.substr(str.indexOf(match) + 2, 4)
-          if (/^[0-9a-f]{4}$/i.test(nextFour)) {
-            return String.fromCharCode(Number.parseInt(nextFour, 16))
-          }
-          return char
-        }
-        case 'x': {
-          // Handle hexadecimal escape sequences \xXX
-          const nextTwo = str.substr(str.indexOf(match) + 2, 2)
-          if (/^[0-9a-f]{2}$/i.test(nextTwo)) {
-            return String.fromCharCode(Number.parseInt(nextTwo, 16))
-          }
-          return char
-        }
-        case '0': case '1': case '2': case '3': case '4': case '5': case '6': case '7': {
-          // Handle octal escape sequences \ooo
-          const octal = match.substr(1)
-          if (/^[0-7]{1,3}$/.test(octal)) {
-            return String.fromCharCode(Number.parseInt(octal, 8))
-          }
-          return char
-        }
-        default: return char
-      }
-    })
+  /**
+   * Create a block editing an array of single-line strings as lines joined by line breaks
+   * @returns Block, or null if the array holds anything but single-line strings
+   */
+  private createArrayLinesBlock(node: Node, document: DetectionDocument): CodeBlockInfo | null {
+    const lines = getArrayLines(node)
+    if (!lines) {
+      return null
+    }
+
+    const path = getNodePath(node)
+    return {
+      code: lines.join('\n'),
+      start: node.offset,
+      end: node.offset + node.length,
+      range: new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length)),
+      fieldName: path.filter(segment => typeof segment === 'string').pop() ?? '',
+      path,
+      keyPath: segmentsToKeyPath(path),
+      arrayLines: true,
+    }
+  }
+
+  private isCodeField(_fieldName: string, schemaInfo?: StringSchemaInfo): boolean {
+    // All string fields are supported because users can select language, unless the schema says otherwise
+    return schemaInfo?.isCode ?? true
   }
 }
@@ -1,56 +1,122 @@
+import type { JSONPath } from 'jsonc-parser'
 import type { CodeBlockInfo } from './codeDetector'
+import type { SourceString } from './diagnosticsMirror'
+import type { EscapeSettings } from './escapeUtils'
+import type { StringFragment, StringTarget } from './jsonUtils'
+import type { SessionStatus, SyncState } from './sessionStatusBar'
+import type { PersistedSession } from './sessionStore'
+import type { OffsetRange } from './textUtils'
 import * as crypto from 'node:crypto'
-import * as fs from 'node:fs'
-import * as os from 'node:os'
 import * as path from 'node:path'
 import * as vscode from 'vscode'
+import { trimFinalLineBreak } from './arrayLines'
+import { CODE_STRING_SCHEME } from './codeStringFileSystem'
+import { alignFragment, applyReplacement, createValueOffsetMap, isAmbiguousPath, isSamePath, locateStringTarget, mapEditedRangeToDocument, replaceTargetValue, spliceFragment, toJsonPointer, toValueOffset } from './jsonUtils'
 import { getFileExtensionForLanguage, normalizeLanguageId } from './languageUtils'
+import { mergeThreeWay } from './mergeUtils'
+import { PREVIEW_SCHEME, PreviewContentProvider } from './previewContentProvider'
+import { getSessionPath, loadSessions, saveSessions } from './sessionStore'
+import { findOpenDocument, getSourceDisplayPath, openSourceDocument } from './sourceDocument'
+import { ensureTempDirectoryExists, getTempDirectoryUri, isTemporaryEditorUri } from './tempUtils'
+import { computeMinimalReplacement, shiftRangeThroughChange } from './textUtils'
+
+const SOURCE_HIGHLIGHT_DURATION = 3000 // Milliseconds the string stays highlighted after going to it
 
 interface EditorInfo {
   document: vscode.TextDocument
-  editor: vscode.TextEditor
-  originalCode: string
+  editor?: vscode.TextEditor // Undefined for sessions restored after a window reload until shown again
+  originalUri: vscode.Uri // URI of the original JSON document, the temporary document of the parent editor for nested editors
+  originalCode: string // Value of the JSON string last seen by the editor, only the edited part for fragments, used as merge base
+  originalVersion: number // Version of the original document when originalCode was captured
+  openedCode: string // Value when the editor was opened, only the edited part for fragments, restored by revert and discard
+  liveSynced: boolean // Whether live sync wrote to the JSON string since the editor was opened
   codeBlockInfo: CodeBlockInfo
-  uniqueKey: string // Unique key: filename + JSON key path
-  safeFileName: string // Safe short filename for temp file
+  targetTracked: boolean // Whether codeBlockInfo.start/end still point at the string literal in the original document
+  uniqueKey: string // Unique key: filename + JSON Pointer of the string
+  safeFileName: string // Safe short path of the temp file, relative to its directory and without extension
+}
+
+/**
+ * Selection in offsets of a string value
+ */
+interface ValueSelection {
+  anchor: number
+  active: number
 }
 
 export class CodeEditorProvider {
   private activeEditors: Map<string, EditorInfo> = new Map()
   private singletonEditor: EditorInfo | null = null
+  private liveSyncTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  private syncingToOriginal: Set<string> = new Set()
+  private replacingTempContent: Set<string> = new Set() // Temporary document URIs being rewritten by the extension
+  private pendingVirtualFiles: Map<string, string> = new Map()
+  private restoredSessions: Map<string, PersistedSession> = new Map() // Keyed by temp document URI
+  private previewProvider = new PreviewContentProvider()
+  private sourceHighlight = vscode.window.createTextEditorDecorationType({
+    backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
+    borderColor: new vscode.ThemeColor('editor.findMatchHighlightBorder'),
+    borderStyle: 'solid',
+    borderWidth: '1px',
+  })
+
+  private sourceHighlightTimer: ReturnType<typeof setTimeout> | undefined
+  private onDidChangeSessionsEmitter = new vscode.EventEmitter<void>()
+  private onDidChangeVirtualFileEmitter = new vscode.EventEmitter<vscode.Uri>()
+  private disposables: vscode.Disposable[] = []
 
   /**
-   * Generate unique key based on filename and JSON key path
+   * Fired when temporary editors are opened or closed
    */
-  private generateUniqueKey(filePath: string, keyPath: string): string {
-    const fileName = vscode.workspace.asRelativePath(filePath)
-    return `${fileName}::${keyPath}`
+  readonly onDidChangeSessions = this.onDidChangeSessionsEmitter.event
+
+  /**
+   * Fired with the URI of a virtual temporary document when its JSON string changes outside of it
+   */
+  readonly onDidChangeVirtualFile = this.onDidChangeVirtualFileEmitter.event
+
+  constructor(private readonly state: vscode.Memento) {
+    this.disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, this.previewProvider),
+      this.previewProvider,
+      this.sourceHighlight,
+      this.onDidChangeSessionsEmitter,
+      this.onDidChangeVirtualFileEmitter,
+      // Restored tabs open their documents lazily, attach sessions once they do
+      vscode.workspace.onDidOpenTextDocument(document => this.attachRestoredSession(document)),
+      vscode.window.onDidChangeActiveTextEditor(() => this.updateEditorContext()),
+    )
   }
 
   /**
-   * Generate safe short filename for temp file
-   * Uses hash to ensure uniqueness while keeping filename short
+   * Generate unique key based on document URI and JSON path
+   * The path is written as JSON Pointer, dotted key paths are ambiguous for keys like "a.b"
+   * Fragments are told apart by their offsets in the value they were opened from
    */
-  private generateSafeFileName(uniqueKey: string, keyPath: string): string {
-    // Get the last part of the key path (field name)
-    const parts = keyPath.split('.')
-    const lastPart = parts[parts.length - 1] || 'code'
+  private generateUniqueKey(uri: vscode.Uri, path: JSONPath, fragment?: StringFragment): string {
+    const fragmentPart = fragment ? `::${fragment.start}-${fragment.end}` : ''
+    return `${uri.toString()}::${toJsonPointer(path)}${fragmentPart}`
+  }
 
-    // Create a short hash of the uniqueKey for uniqueness
+  /**
+   * Generate safe short path for temp file
+   * The file is named after the string, so the tab title reads e.g. "flow.json › nodes.[3].script",
+   * and placed in a directory named by a hash of the unique key, so strings with the same name don't share a file
+   */
+  private generateSafeFileName(uniqueKey: string, label: string): string {
     const hash = crypto.createHash('md5').update(uniqueKey).digest('hex').substring(0, 8)
 
-    // Sanitize the last part (only keep alphanumeric and underscore)
-    const safePart = lastPart.replace(/\W/g, '_').substring(0, 30)
-
-    // Return a safe filename: fieldName_hash (max ~40 chars)
-    return `${safePart}_${hash}`
+    // Replace characters file systems don't allow, long labels keep their end as it names the string (max ~70 chars)
+    const safeLabel = label.replace(/[\\/:*?"<>|\p{Cc}]/gu, '_').replace(/[. ]+$/, '')
+    const namePart = safeLabel.length > 60 ? `…${safeLabel.slice(-59)}` : safeLabel
+    return `${hash}/${namePart || 'code'}`
   }
 
   /**
    * Check if editor for specified key value already exists
    */
-  hasExistingEditor(filePath: string, keyPath: string): boolean {
-    const uniqueKey = this.generateUniqueKey(filePath, keyPath)
+  hasExistingEditor(uri: vscode.Uri, path: JSONPath, fragment?: StringFragment): boolean {
+    const uniqueKey = this.generateUniqueKey(uri, path, fragment)
     const existingEditor = this.activeEditors.get(uniqueKey)
 
     // Check if editor is still valid (document not closed)
@@ -69,11 +135,140 @@ export class CodeEditorProvider {
     return false
   }
 
+  /**
+   * Get the visible temporary editor of a string
+   * @param uri Original document URI
+   * @param path Path of the string
+   * @returns Editor, or undefined if the string has no visible temporary editor
+   */
+  getVisibleEditor(uri: vscode.Uri, path: JSONPath): vscode.TextEditor | undefined {
+    const editorInfo = this.activeEditors.get(this.generateUniqueKey(uri, path))
+    return editorInfo && vscode.window.visibleTextEditors.find(editor => editor.document === editorInfo.document)
+  }
+
+  /**
+   * Get the URIs of the open temporary documents
+   */
+  getTempUris(): vscode.Uri[] {
+    return [...this.activeEditors.values()]
+      .filter(editorInfo => !editorInfo.document.isClosed)
+      .map(editorInfo => editorInfo.document.uri)
+  }
+
+  /**
+   * Locate the string a temporary document edits in its open original document, without asking the user or updating the editor
+   * @param tempUri Temporary document URI
+   * @returns Original document and string, or undefined if no editor owns the document, its original document isn't open
+   * or the string can't be told apart from others
+   */
+  locateString(tempUri: vscode.Uri): SourceString | undefined {
+    const editorInfo = this.findEditorInfoByUri(tempUri)
+    const document = editorInfo && findOpenDocument(editorInfo.originalUri)
+    if (!editorInfo || !document) {
+      return undefined
+    }
+
+    const { codeBlockInfo } = editorInfo
+    const offsets = editorInfo.targetTracked ? { start: codeBlockInfo.start, end: codeBlockInfo.end } : undefined
+    const target = locateStringTarget(document.getText(), codeBlockInfo.path, this.getExpectedValue(editorInfo), offsets, codeBlockInfo.arrayLines)
+    if (!target?.verified || target.ambiguous) {
+      return undefined
+    }
+    return { document, target, fragment: codeBlockInfo.fragment && alignFragment(codeBlockInfo.fragment, target.value) }
+  }
+
+  /**
+   * Get what the status bar shows about a temporary editor
+   * @param tempUri Temporary document URI
+   * @returns Status, or undefined if no editor owns the document
+   */
+  getSessionStatus(tempUri: vscode.Uri): SessionStatus | undefined {
+    const editorInfo = this.findEditorInfoByUri(tempUri)
+    if (!editorInfo) {
+      return undefined
+    }
+
+    const { rootUri, keyPaths } = this.getKeyPathChain(editorInfo)
+    return {
+      sourceUri: rootUri,
+      keyPaths,
+      language: editorInfo.document.languageId,
+      syncState: this.getSyncState(editorInfo),
+    }
+  }
+
+  /**
+   * Compare the content of a temporary editor with its JSON string, without updating the editor
+   * Without an open original document, the value last seen by the editor is compared
+   */
+  private getSyncState(editorInfo: EditorInfo): SyncState {
+    const value = this.peekEditedValue(editorInfo)
+    if (value === undefined && findOpenDocument(editorInfo.originalUri)) {
+      return 'detached'
+    }
+
+    if (this.getEditorValue(editorInfo) === (value ?? editorInfo.originalCode)) {
+      return 'synced'
+    }
+    return this.isLiveSyncEnabled(editorInfo) ? 'syncing' : 'modified'
+  }
+
+  /**
+   * Get the current value of the part of the JSON string an editor edits, without tracking or updating the editor
+   * @returns Value, or undefined if the original document isn't open or the string isn't found
+   */
+  private peekEditedValue(editorInfo: EditorInfo): string | undefined {
+    const sourceString = this.locateString(editorInfo.document.uri)
+    if (!sourceString) {
+      return undefined
+    }
+    const { target, fragment } = sourceString
+    return fragment ? target.value.slice(fragment.start, fragment.end) : target.value
+  }
+
+  /**
+   * Get the value content of a temporary editor stands for, a final line break of arrays edited as lines isn't part of it
+   * @param editorInfo Editor
+   * @param text Content, the current temporary document content by default
+   */
+  private getEditorValue(editorInfo: EditorInfo, text = editorInfo.document.getText()): string {
+    const { arrayLines, fragment } = editorInfo.codeBlockInfo
+    return arrayLines && !fragment ? trimFinalLineBreak(text) : text
+  }
+
+  /**
+   * Get the value the edited string is expected to hold, the whole value for fragments
+   */
+  private getExpectedValue(editorInfo: EditorInfo): string {
+    return editorInfo.codeBlockInfo.fragment?.value ?? editorInfo.originalCode
+  }
+
+  /**
+   * Get the part of a located string that an editor edits
+   * The fragment of the editor has to be aligned with the target, which resolveTarget does
+   */
+  private getEditedValue(editorInfo: EditorInfo, target: StringTarget): string {
+    const { fragment } = editorInfo.codeBlockInfo
+    return fragment ? target.value.slice(fragment.start, fragment.end) : target.value
+  }
+
+  /**
+   * Get the whole new value of a located string once the code of an editor is written into it
+   */
+  private getNewValue(editorInfo: EditorInfo, newCode: string): string {
+    const { fragment } = editorInfo.codeBlockInfo
+    return fragment ? spliceFragment(fragment, newCode) : newCode
+  }
+
   /**
    * Open code editor
+   * @param codeBlockInfo Detected string
+   * @param originalDocument Document containing the string
+   * @param selection Selection in the original document, selected in the temporary editor if it is inside the string
    */
-  async openCodeEditor(codeBlockInfo: CodeBlockInfo, originalDocument: vscode.TextDocument): Promise<void> {
-    const uniqueKey = this.generateUniqueKey(originalDocument.uri.fsPath, codeBlockInfo.keyPath)
+  async openCodeEditor(codeBlockInfo: CodeBlockInfo, originalDocument: vscode.TextDocument, selection?: vscode.Selection): Promise<void> {
+    const uniqueKey = this.generateUniqueKey(originalDocument.uri, codeBlockInfo.path, codeBlockInfo.fragment)
+    const valueSelection = selection && this.toValueSelection(originalDocument, codeBlockInfo, selection)
 
     console.log(`[CodeEditor] Attempting to open editor, unique key: ${uniqueKey}`)
 
@@ -81,54 +276,113 @@ export class CodeEditorProvider {
     const existingEditor = this.activeEditors.get(uniqueKey)
     if (existingEditor) {
       console.log(`[CodeEditor] Found existing editor, reusing and updating content`)
-      await this.updateExistingEditor(existingEditor, codeBlockInfo, originalDocument)
+      await this.updateExistingEditor(existingEditor, codeBlockInfo, originalDocument, valueSelection)
       return
     }
 
+    // Saving follows the position of the string, the path alone could point at another string
+    if (isAmbiguousPath(originalDocument.getText(), codeBlockInfo.path)) {
+      const fileName = getSourceDisplayPath(originalDocument.uri)
+      vscode.window.showWarningMessage(`"${codeBlockInfo.keyPath}" matches more than one string in ${fileName}, e.g. because of a duplicate key or a syntax error. Changes are saved to the string you opened as long as its position can be followed.`)
+    }
+
     // Create new temporary editor
     console.log(`[CodeEditor] Creating new temporary editor`)
-    await this.createNewEditor(codeBlockInfo, originalDocument, uniqueKey)
+    await this.createNewEditor(codeBlockInfo, originalDocument, uniqueKey, valueSelection)
+  }
+
+  /**
+   * Translate a selection in the original document into offsets of the string value
+   * @returns Selection in the value, or undefined if the selection isn't inside the string or a fragment is opened
+   */
+  private toValueSelection(originalDocument: vscode.TextDocument, codeBlockInfo: CodeBlockInfo, selection: vscode.Selection): ValueSelection | undefined {
+    // The selection of a fragment is the fragment itself
+    if (codeBlockInfo.fragment) {
+      return undefined
+    }
+
+    const anchor = originalDocument.offsetAt(selection.anchor)
+    const active = originalDocument.offsetAt(selection.active)
+    if (Math.min(anchor, active) < codeBlockInfo.start || Math.max(anchor, active) > codeBlockInfo.end) {
+      return undefined
+    }
+
+    const text = originalDocument.getText()
+    const target = locateStringTarget(text, codeBlockInfo.path, codeBlockInfo.code, { start: codeBlockInfo.start, end: codeBlockInfo.end }, codeBlockInfo.arrayLines)
+    if (!target?.verified) {
+      return undefined
+    }
+    const offsetMap = createValueOffsetMap(text, target.node)
+    return { anchor: toValueOffset(offsetMap, anchor), active: toValueOffset(offsetMap, active) }
+  }
+
+  /**
+   * Select a range of the string value in its temporary editor and scroll to it
+   */
+  private selectValue(editor: vscode.TextEditor, valueSelection: ValueSelection): void {
+    const { document } = editor
+    const selection = new vscode.Selection(document.positionAt(valueSelection.anchor), document.positionAt(valueSelection.active))
+    editor.selection = selection
+    editor.revealRange(selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport)
   }
 
   /**
    * Create new editor
    */
-  private async createNewEditor(codeBlockInfo: CodeBlockInfo, originalDocument: vscode.TextDocument, uniqueKey: string): Promise<void> {
+  private async createNewEditor(codeBlockInfo: CodeBlockInfo, originalDocument: vscode.TextDocument, uniqueKey: string, valueSelection?: ValueSelection): Promise<void> {
     // Normalize language identifier, use plaintext if no language info
     const normalizedLanguage = normalizeLanguageId(codeBlockInfo.language || 'plaintext')
 
     // Get correct file extension
     const fileExtension = getFileExtensionForLanguage(normalizedLanguage)
 
-    // Create real temporary file instead of untitled document
-    const tempDir = os.tmpdir()
-    // Generate safe short filename to avoid ENAMETOOLONG error
-    const safeFileName = this.generateSafeFileName(uniqueKey, codeBlockInfo.keyPath)
+    // Generate safe short filename to avoid ENAMETOOLONG error, nested editors are named after the chain of fields
+    const parentInfo = this.findEditorInfoByUri(originalDocument.uri)
+    const { rootUri, keyPaths } = parentInfo ? this.getKeyPathChain(parentInfo) : { rootUri: originalDocument.uri, keyPaths: [] }
+    const label = [path.posix.basename(rootUri.path), ...keyPaths, this.getDisplayKeyPath(codeBlockInfo)].join(' › ')
+    const safeFileName = this.generateSafeFileName(uniqueKey, label)
     const tempFileName = `${safeFileName}.${fileExtension}`
-    const tempFilePath = path.join(tempDir, 'vscode-json-string-code-editor', tempFileName)
 
-    // Ensure temporary directory exists
-    const tempDirPath = path.dirname(tempFilePath)
-    if (!fs.existsSync(tempDirPath)) {
-      fs.mkdirSync(tempDirPath, { recursive: true })
+    let tempUri: vscode.Uri
+    if (this.isVirtualFileSystemEnabled(originalDocument.uri)) {
+      // Virtual file content is served from memory until the editor is registered
+      tempUri = this.getVirtualFileUri(originalDocument.uri, tempFileName)
+      this.pendingVirtualFiles.set(tempUri.toString(), codeBlockInfo.code)
+    }
+    else {
+      // Create real temporary file instead of untitled document
+      await ensureTempDirectoryExists()
+      tempUri = vscode.Uri.joinPath(getTempDirectoryUri(), tempFileName)
+      await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(tempUri, '..'))
+      await vscode.workspace.fs.writeFile(tempUri, new TextEncoder().encode(codeBlockInfo.code))
     }
 
-    // Write to temporary file
-    fs.writeFileSync(tempFilePath, codeBlockInfo.code, 'utf8')
-
-    const tempUri = vscode.Uri.file(tempFilePath)
-    const tempDocument = await vscode.workspace.openTextDocument(tempUri)
+    let tempDocument: vscode.TextDocument
+    try {
+      tempDocument = await vscode.workspace.openTextDocument(tempUri)
+    }
+    finally {
+      this.pendingVirtualFiles.delete(tempUri.toString())
+    }
 
     const editor = await vscode.window.showTextDocument(tempDocument, {
       viewColumn: vscode.ViewColumn.Beside,
       preview: false,
     })
+    if (valueSelection) {
+      this.selectValue(editor, valueSelection)
+    }
 
     const editorInfo: EditorInfo = {
       document: tempDocument,
       editor,
+      originalUri: originalDocument.uri,
       originalCode: codeBlockInfo.code,
+      originalVersion: originalDocument.version,
+      openedCode: codeBlockInfo.code,
+      liveSynced: false,
       codeBlockInfo,
+      targetTracked: true,
       uniqueKey,
       safeFileName,
     }
@@ -136,30 +390,191 @@ export class CodeEditorProvider {
     // Store editor information
     this.activeEditors.set(uniqueKey, editorInfo)
     this.singletonEditor = editorInfo
+    this.persistSessions()
+    this.notifySessionsChanged()
 
-    // Update status bar
-    this.updateStatusBar(editorInfo, originalDocument)
+    this.watchForClose(editorInfo)
 
-    // Listen for document close event
+    console.log(`[CodeEditor] New editor created successfully, unique key: ${uniqueKey}`)
+  }
+
+  /**
+   * Remove editor information once its temporary document is closed
+   */
+  private watchForClose(editorInfo: EditorInfo): void {
     const disposable = vscode.workspace.onDidCloseTextDocument((closedDoc) => {
-      if (closedDoc === tempDocument) {
-        console.log(`[CodeEditor] Temporary editor closed, unique key: ${uniqueKey}`)
-        this.activeEditors.delete(uniqueKey)
+      if (closedDoc === editorInfo.document) {
+        // The key may have changed while editing if the string moved
+        console.log(`[CodeEditor] Temporary editor closed, unique key: ${editorInfo.uniqueKey}`)
+        this.clearLiveSyncTimer(editorInfo.uniqueKey)
+        this.activeEditors.delete(editorInfo.uniqueKey)
         if (this.singletonEditor === editorInfo) {
           this.singletonEditor = null
         }
+        this.persistSessions()
+        this.notifySessionsChanged()
         disposable.dispose()
       }
     })
+    this.disposables.push(disposable)
+  }
 
-    console.log(`[CodeEditor] New editor created successfully, unique key: ${uniqueKey}`)
+  /**
+   * Restore editor sessions persisted before a window reload
+   * Sessions without a remaining tab are dropped, the others are attached when their document opens
+   */
+  restoreSessions(): void {
+    const openTabUris = new Set<string>()
+    for (const tab of vscode.window.tabGroups.all.flatMap(group => group.tabs)) {
+      if (tab.input instanceof vscode.TabInputText) {
+        openTabUris.add(tab.input.uri.toString())
+      }
+    }
+
+    const sessions = loadSessions(this.state).filter((session) => {
+      const tempUri = vscode.Uri.parse(session.tempUri).toString()
+      return openTabUris.has(tempUri) && !this.activeEditors.has(session.uniqueKey)
+    })
+    for (const session of sessions) {
+      this.restoredSessions.set(vscode.Uri.parse(session.tempUri).toString(), session)
+    }
+    console.log(`[CodeEditor] Restored ${sessions.length} editor session(s)`)
+    this.persistSessions()
+    this.notifySessionsChanged()
+
+    for (const document of vscode.workspace.textDocuments) {
+      this.attachRestoredSession(document)
+    }
+    for (const session of sessions) {
+      void this.validateRestoredSession(session)
+    }
+  }
+
+  /**
+   * Turn a restored session into editor information once its temporary document is open
+   */
+  private attachRestoredSession(document: vscode.TextDocument): void {
+    const key = document.uri.toString()
+    const session = this.restoredSessions.get(key)
+    if (!session) {
+      return
+    }
+    this.restoredSessions.delete(key)
+
+    const editorInfo: EditorInfo = {
+      document,
+      originalUri: vscode.Uri.parse(session.originalUri),
+      originalCode: session.originalCode,
+      // Unknown version forces comparing the current value with the base on the first save
+      originalVersion: -1,
+      openedCode: session.openedCode ?? session.originalCode,
+      liveSynced: session.liveSynced ?? false,
+      codeBlockInfo: {
+        code: session.originalCode,
+        start: session.start,
+        end: session.end,
+        // Not used after opening, the range is only needed by the detector result
+        range: new vscode.Range(0, 0, 0, 0),
+        fieldName: session.fieldName,
+        path: getSessionPath(session),
+        keyPath: session.keyPath,
+        language: session.language,
+        arrayLines: session.arrayLines,
+        fragment: session.fragment,
+      },
+      // Offsets may be stale after the reload, locate the string by key path first
+      targetTracked: false,
+      uniqueKey: session.uniqueKey,
+      safeFileName: session.safeFileName,
+    }
+
+    this.activeEditors.set(session.uniqueKey, editorInfo)
+    this.watchForClose(editorInfo)
+    console.log(`[CodeEditor] Attached restored editor, unique key: ${session.uniqueKey}`)
+  }
+
+  /**
+   * Tell the user if the JSON value of a restored session no longer exists
+   */
+  private async validateRestoredSession(session: PersistedSession): Promise<void> {
+    const originalUri = vscode.Uri.parse(session.originalUri)
+    const originalDocument = await openSourceDocument(originalUri)
+    if (originalDocument && locateStringTarget(originalDocument.getText(), getSessionPath(session), session.originalCode, undefined, session.arrayLines)) {
+      return
+    }
+
+    const fileName = vscode.workspace.asRelativePath(originalUri)
+    vscode.window.showWarningMessage(`"${session.keyPath}" no longer exists in ${fileName}. Changes in the restored editor can't be saved back.`)
+
+    this.restoredSessions.delete(vscode.Uri.parse(session.tempUri).toString())
+    const editorInfo = this.activeEditors.get(session.uniqueKey)
+    if (editorInfo?.safeFileName === session.safeFileName) {
+      this.activeEditors.delete(session.uniqueKey)
+    }
+    this.persistSessions()
+    this.notifySessionsChanged()
+  }
+
+  /**
+   * Store all sessions in workspace state so they survive a window reload
+   */
+  private persistSessions(): void {
+    const sessions: PersistedSession[] = [...this.activeEditors.values()].map(editorInfo => ({
+      uniqueKey: editorInfo.uniqueKey,
+      safeFileName: editorInfo.safeFileName,
+      tempUri: editorInfo.document.uri.toString(),
+      originalUri: editorInfo.originalUri.toString(),
+      path: editorInfo.codeBlockInfo.path,
+      keyPath: editorInfo.codeBlockInfo.keyPath,
+      fieldName: editorInfo.codeBlockInfo.fieldName,
+      language: editorInfo.codeBlockInfo.language,
+      arrayLines: editorInfo.codeBlockInfo.arrayLines,
+      fragment: editorInfo.codeBlockInfo.fragment,
+      originalCode: editorInfo.originalCode,
+      openedCode: editorInfo.openedCode,
+      liveSynced: editorInfo.liveSynced,
+      start: editorInfo.codeBlockInfo.start,
+      end: editorInfo.codeBlockInfo.end,
+    }))
+    // Keep restored sessions whose tabs haven't been shown yet
+    sessions.push(...this.restoredSessions.values())
+
+    saveSessions(this.state, sessions).catch((error) => {
+      console.error('[CodeEditor] Failed to persist editor sessions:', error)
+    })
+  }
+
+  /**
+   * Report added or removed sessions, the active editor may have become a temporary editor or stopped being one
+   */
+  private notifySessionsChanged(): void {
+    this.updateEditorContext()
+    this.onDidChangeSessionsEmitter.fire()
+  }
+
+  /**
+   * Set the context key that shows temporary editor actions in the editor title bar
+   */
+  private updateEditorContext(): void {
+    const document = vscode.window.activeTextEditor?.document
+    const isCodeStringEditor = !!document && (!!this.findEditorInfoByUri(document.uri) || this.restoredSessions.has(document.uri.toString()))
+    void vscode.commands.executeCommand('setContext', 'vscode-json-string-code-editor.isCodeStringEditor', isCodeStringEditor)
+  }
+
+  /**
+   * Update the base value of an editor, captured from the given original document version
+   */
+  private updateBase(editorInfo: EditorInfo, originalDocument: vscode.TextDocument, value: string): void {
+    editorInfo.originalCode = value
+    editorInfo.originalVersion = originalDocument.version
+    this.persistSessions()
   }
 
   /**
    * Update existing editor
    */
-  private async updateExistingEditor(editorInfo: EditorInfo, newCodeBlockInfo: CodeBlockInfo, originalDocument: vscode.TextDocument): Promise<void> {
-    const { document: tempDocument, editor } = editorInfo
+  private async updateExistingEditor(editorInfo: EditorInfo, newCodeBlockInfo: CodeBlockInfo, originalDocument: vscode.TextDocument, valueSelection?: ValueSelection): Promise<void> {
+    const { document: tempDocument } = editorInfo
 
     // Check if editor is still valid (document not closed)
     if (tempDocument.isClosed) {
@@ -169,7 +584,7 @@ export class CodeEditorProvider {
         this.singletonEditor = null
       }
       // Recreate editor
-      await this.createNewEditor(newCodeBlockInfo, originalDocument, editorInfo.uniqueKey)
+      await this.createNewEditor(newCodeBlockInfo, originalDocument, editorInfo.uniqueKey, valueSelection)
       return
     }
 
@@ -181,30 +596,25 @@ export class CodeEditorProvider {
       console.log(`[CodeEditor] Content has changed, updating editor content`)
 
       // Update temporary document content
-      const edit = new vscode.WorkspaceEdit()
-      const fullRange = new vscode.Range(
-        tempDocument.positionAt(0),
-        tempDocument.positionAt(tempDocument.getText().length),
-      )
-      edit.replace(tempDocument.uri, fullRange, newContent)
-      await vscode.workspace.applyEdit(edit)
+      await this.replaceTempDocumentContent(tempDocument, newContent)
 
       // Update stored original code and code block info
-      editorInfo.originalCode = newContent
       editorInfo.codeBlockInfo = newCodeBlockInfo
+      editorInfo.targetTracked = true
+      // Opening the string again starts over from its current value
+      editorInfo.openedCode = newContent
+      editorInfo.liveSynced = false
+      this.updateBase(editorInfo, originalDocument, newContent)
     }
     else {
       console.log(`[CodeEditor] Content unchanged, no update needed`)
     }
 
-    // Update status bar
-    this.updateStatusBar(editorInfo, originalDocument)
-
     // Check if editor is current active editor
-    const isActive = vscode.window.activeTextEditor === editor
-    if (!isActive) {
+    const activeEditor = vscode.window.activeTextEditor
+    if (activeEditor?.document !== tempDocument) {
       console.log(`[CodeEditor] Editor is not current active editor, focusing to editor`)
-      await vscode.window.showTextDocument(tempDocument, {
+      editorInfo.editor = await vscode.window.showTextDocument(tempDocument, {
         viewColumn: vscode.ViewColumn.Beside, // Always open in right panel
         preview: false,
         preserveFocus: false,
@@ -213,192 +623,906 @@ export class CodeEditorProvider {
     else {
       console.log(`[CodeEditor] Editor is already active editor, checking if in correct panel position`)
       // Even if editor is active, ensure it's in right panel
-      if (editor.viewColumn !== vscode.ViewColumn.Beside && editor.viewColumn !== vscode.ViewColumn.Two) {
+      if (activeEditor.viewColumn !== vscode.ViewColumn.Beside && activeEditor.viewColumn !== vscode.ViewColumn.Two) {
         console.log(`[CodeEditor] Editor not in right panel, moving to right panel`)
-        await vscode.window.showTextDocument(tempDocument, {
+        editorInfo.editor = await vscode.window.showTextDocument(tempDocument, {
           viewColumn: vscode.ViewColumn.Beside,
           preview: false,
           preserveFocus: false,
         })
       }
     }
+
+    // The temporary document now holds the current value, so value offsets apply to it
+    const editor = vscode.window.activeTextEditor?.document === tempDocument ? vscode.window.activeTextEditor : editorInfo.editor
+    if (valueSelection && editor) {
+      this.selectValue(editor, valueSelection)
+    }
   }
 
   /**
-   * Update status bar
+   * Get the key paths leading from the JSON file to the string of an editor, through the parents of nested editors
+   * @returns URI of the JSON file and the key path of each level, outermost first
    */
-  private updateStatusBar(editorInfo: EditorInfo, originalDocument: vscode.TextDocument): void {
-    const fileName = vscode.workspace.asRelativePath(originalDocument.uri.fsPath)
-    const keyPath = editorInfo.codeBlockInfo.keyPath
-    const language = editorInfo.codeBlockInfo.language || 'plaintext'
+  private getKeyPathChain(editorInfo: EditorInfo): { rootUri: vscode.Uri, keyPaths: string[] } {
+    const keyPaths = [this.getDisplayKeyPath(editorInfo.codeBlockInfo)]
+    let current = editorInfo
+    let parent = this.findEditorInfoByUri(current.originalUri)
+    while (parent && parent !== editorInfo) {
+      keyPaths.unshift(this.getDisplayKeyPath(parent.codeBlockInfo))
+      current = parent
+      parent = this.findEditorInfoByUri(current.originalUri)
+    }
+    return { rootUri: current.originalUri, keyPaths }
+  }
 
-    vscode.window.setStatusBarMessage(
-      `Editing: ${fileName} -> ${keyPath} (${language})`,
-      5000,
-    )
+  /**
+   * Get the key path of an edited string as shown to users, marking fragments
+   */
+  private getDisplayKeyPath(codeBlockInfo: CodeBlockInfo): string {
+    return codeBlockInfo.fragment ? `${codeBlockInfo.keyPath} (part)` : codeBlockInfo.keyPath
+  }
+
+  /**
+   * Get the editor whose temporary document a nested editor writes to
+   * @returns Parent editor, or undefined if the editor isn't nested or its parent has been closed
+   */
+  private async getParentEditorInfo(editorInfo: EditorInfo): Promise<EditorInfo | undefined> {
+    const parentInfo = this.findEditorInfoByUri(editorInfo.originalUri)
+    if (parentInfo || !this.restoredSessions.has(editorInfo.originalUri.toString())) {
+      return parentInfo
+    }
+
+    // A restored parent tab only opens its document once shown
+    const document = await openSourceDocument(editorInfo.originalUri)
+    if (document) {
+      this.attachRestoredSession(document)
+    }
+    return this.findEditorInfoByUri(editorInfo.originalUri)
   }
 
   /**
    * Save code to original document
    */
   async saveCodeToOriginal(tempDocument: vscode.TextDocument): Promise<void> {
-    // Extract filename from temporary file path
-    const tempFilePath = tempDocument.uri.fsPath
-    const tempFileNameWithExt = path.basename(tempFilePath)
-    const tempFileName = path.parse(tempFileNameWithExt).name
+    // A restored tab may be saved before its open event was handled
+    this.attachRestoredSession(tempDocument)
+
+    const targetEditorInfo = this.findEditorInfoByUri(tempDocument.uri)
+    if (!targetEditorInfo) {
+      console.log('[CodeEditor] Could not find corresponding editor info, temp file:', tempDocument.uri.fsPath)
+      return
+    }
+
+    await this.saveEditorToOriginal(targetEditorInfo, tempDocument.getText())
+  }
 
-    // Find corresponding editor info by safeFileName
-    let targetEditorInfo: EditorInfo | null = null
+  /**
+   * Read the current value of a virtual code string file
+   * @returns Current value, or undefined if no editor owns the file
+   */
+  async readVirtualFile(uri: vscode.Uri): Promise<string | undefined> {
+    const pending = this.pendingVirtualFiles.get(uri.toString())
+    if (pending !== undefined) {
+      return pending
+    }
+
+    const editorInfo = this.findEditorInfoByUri(uri)
+    if (!editorInfo) {
+      // Restored tabs read their content before the document is opened
+      return this.restoredSessions.get(uri.toString())?.originalCode
+    }
+
+    // Serve the live value, the base only moves on open, save and sync so changes in the JSON file are still detected on save
+    return this.peekEditedValue(editorInfo) ?? editorInfo.originalCode
+  }
+
+  /**
+   * Write a saved virtual code string file back to its original document
+   * @returns Whether the code was written
+   */
+  async writeVirtualFile(uri: vscode.Uri, code: string): Promise<boolean> {
+    let editorInfo = this.findEditorInfoByUri(uri)
+    if (!editorInfo) {
+      const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString())
+      if (document) {
+        this.attachRestoredSession(document)
+        editorInfo = this.findEditorInfoByUri(uri)
+      }
+    }
+    return editorInfo ? this.saveEditorToOriginal(editorInfo, code) : false
+  }
+
+  private findEditorInfoByUri(uri: vscode.Uri): EditorInfo | undefined {
+    const key = uri.toString()
     for (const editorInfo of this.activeEditors.values()) {
-      if (tempFileName === editorInfo.safeFileName) {
-        targetEditorInfo = editorInfo
-        break
+      if (editorInfo.document.uri.toString() === key) {
+        return editorInfo
       }
     }
+    return undefined
+  }
 
-    if (!targetEditorInfo) {
-      console.log('[CodeEditor] Could not find corresponding editor info, temp file name:', tempFileName)
-      return
+  /**
+   * Save code of an editor to its original document
+   * @returns Whether the code was written
+   */
+  private async saveEditorToOriginal(targetEditorInfo: EditorInfo, code: string): Promise<boolean> {
+    const newCode = this.getEditorValue(targetEditorInfo, code)
+    // Saving writes the latest content, no need for a pending live sync
+    this.clearLiveSyncTimer(targetEditorInfo.uniqueKey)
+
+    // Nested editors write into the temporary document of their parent, which has to be still open to pass the change on
+    const isNested = isTemporaryEditorUri(targetEditorInfo.originalUri)
+    const parentInfo = isNested ? await this.getParentEditorInfo(targetEditorInfo) : undefined
+    if (isNested && !parentInfo) {
+      vscode.window.showErrorMessage(`Cannot save "${targetEditorInfo.codeBlockInfo.keyPath}", the temporary editor it was opened from has been closed`)
+      return false
     }
 
-    const newCode = tempDocument.getText()
-    const { codeBlockInfo } = targetEditorInfo
+    const originalDocument = await openSourceDocument(targetEditorInfo.originalUri)
+    if (!originalDocument) {
+      vscode.window.showErrorMessage('Cannot find original document')
+      return false
+    }
+
+    try {
+      const target = await this.resolveTarget(targetEditorInfo, originalDocument, true)
+      if (!target) {
+        return false
+      }
+
+      // Saving without edits must leave the JSON file byte-identical
+      if (this.getEditedValue(targetEditorInfo, target) === newCode) {
+        this.updateBase(targetEditorInfo, originalDocument, newCode)
+        return true
+      }
+
+      // Don't silently overwrite a value that was changed in the original file after the editor captured it
+      // An ambiguous target was already confirmed by the user, so there is nothing left to ask
+      const theirs = target.ambiguous ? undefined : this.getChangedOriginalValue(targetEditorInfo, originalDocument, target)
+      if (theirs !== undefined && theirs !== newCode) {
+        const keepMine = await this.resolveConflict(targetEditorInfo, originalDocument, newCode, theirs)
+        if (!keepMine) {
+          return false
+        }
+      }
+
+      // Let the user check the escaped string as it will land in the JSON file
+      if (this.isReviewBeforeApplyEnabled(targetEditorInfo)) {
+        const approved = await this.reviewChange(targetEditorInfo, originalDocument, target, newCode)
+        if (!approved) {
+          return false
+        }
+      }
 
-    // Find original document
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-    const relativePath = targetEditorInfo.uniqueKey.split('::')[0]
-    const fullPath = workspaceFolder ? `${workspaceFolder}/${relativePath}` : relativePath
+      const success = await this.writeCodeToOriginal(targetEditorInfo, originalDocument, target, newCode)
+      if (!success) {
+        vscode.window.showErrorMessage('Save failed')
+        return false
+      }
+      if (parentInfo) {
+        return this.saveParentEditor(parentInfo)
+      }
+      vscode.window.showInformationMessage('Code saved to original file')
+      return true
+    }
+    catch (error) {
+      console.error('[CodeEditor] Save to original document failed:', error)
+      vscode.window.showErrorMessage(`Save failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      return false
+    }
+  }
 
-    const originalDocument = vscode.workspace.textDocuments.find(doc =>
-      doc.uri.fsPath === fullPath,
+  /**
+   * Pass a change written into the temporary document of a parent editor on up to the JSON file
+   * @returns Whether every level up to the JSON file was written
+   */
+  private async saveParentEditor(parentInfo: EditorInfo): Promise<boolean> {
+    const saved = await this.saveEditorToOriginal(parentInfo, parentInfo.document.getText())
+    if (saved && !parentInfo.document.isClosed) {
+      // The parent now matches its string, saving its document only clears the dirty state
+      await parentInfo.document.save()
+    }
+    return saved
+  }
+
+  /**
+   * Write code into the string literal of the original document
+   * @returns Whether the edit was applied
+   */
+  private async writeCodeToOriginal(editorInfo: EditorInfo, originalDocument: vscode.TextDocument, target: StringTarget, newCode: string): Promise<boolean> {
+    const { codeBlockInfo } = editorInfo
+
+    // Replace only the string literal itself so comments, indentation and key order survive
+    const text = originalDocument.getText()
+    const newValue = this.getNewValue(editorInfo, newCode)
+    const replacement = replaceTargetValue(text, target, newValue, this.getEscapeSettings(editorInfo))
+
+    // Only the changed part inside the literal is edited, so undoing the write is a change inside the literal that keeps it tracked
+    const changed = computeMinimalReplacement(text.slice(replacement.offset, replacement.offset + replacement.length), replacement.content)
+    const edit = new vscode.WorkspaceEdit()
+    if (changed) {
+      const range = new vscode.Range(
+        originalDocument.positionAt(replacement.offset + changed.offset),
+        originalDocument.positionAt(replacement.offset + changed.offset + changed.length),
+      )
+      edit.replace(originalDocument.uri, range, changed.content)
+    }
+
+    const success = await vscode.workspace.applyEdit(edit)
+    if (success) {
+      // Update stored original code and literal offsets, arrays edited as lines may only have changed inside
+      codeBlockInfo.start = target.node.offset
+      codeBlockInfo.end = target.node.offset + target.node.length + replacement.content.length - replacement.length
+      editorInfo.targetTracked = true
+      if (codeBlockInfo.fragment) {
+        codeBlockInfo.fragment = { start: codeBlockInfo.fragment.start, end: codeBlockInfo.fragment.start + newCode.length, value: newValue }
+      }
+      this.updateBase(editorInfo, originalDocument, newCode)
+    }
+    return success
+  }
+
+  /**
+   * Locate the edited string in the original document
+   * Uses tracked offsets first and the key path as fallback; if the string can't be verified,
+   * the user is asked (when interactive) instead of writing somewhere else
+   * When interactive, a single string at the key path holding another value is returned unverified, the save conflict flow handles its value
+   * @returns Target to write to, or undefined if it could not be located or the user declined
+   */
+  private async resolveTarget(editorInfo: EditorInfo, originalDocument: vscode.TextDocument, interactive: boolean): Promise<StringTarget | undefined> {
+    const { codeBlockInfo } = editorInfo
+    const offsets = editorInfo.targetTracked ? { start: codeBlockInfo.start, end: codeBlockInfo.end } : undefined
+    const target = locateStringTarget(originalDocument.getText(), codeBlockInfo.path, this.getExpectedValue(editorInfo), offsets, codeBlockInfo.arrayLines)
+
+    if (target?.verified && !target.ambiguous) {
+      this.updateTarget(editorInfo, target)
+      return target
+    }
+    if (!interactive) {
+      return undefined
+    }
+
+    if (!target) {
+      vscode.window.showWarningMessage(`Cannot find "${codeBlockInfo.keyPath}" in the original file anymore. The string may have been moved or removed.`)
+      return undefined
+    }
+
+    // Offsets are lost when the whole literal or its line is rewritten, e.g. by a reload or a formatter, the string is still at its key path
+    if (!target.ambiguous) {
+      this.updateTarget(editorInfo, target)
+      return target
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Lost track of the edited string, "${target.keyPath}" matches more than one string.`,
+      {
+        modal: true,
+        detail: 'The file has a duplicate key or a syntax error. Writing changes the first of these strings, only do it if that is the string you were editing.',
+      },
+      'Write Anyway',
     )
+    if (choice !== 'Write Anyway') {
+      return undefined
+    }
 
-    if (!originalDocument) {
-      vscode.window.showErrorMessage('Cannot find original document')
+    this.updateTarget(editorInfo, target)
+    return target
+  }
+
+  /**
+   * Store the located position and key path of the edited string
+   * Fragments follow changes made around them in the value
+   */
+  private updateTarget(editorInfo: EditorInfo, target: StringTarget): void {
+    const { codeBlockInfo } = editorInfo
+    codeBlockInfo.start = target.node.offset
+    codeBlockInfo.end = target.node.offset + target.node.length
+    editorInfo.targetTracked = true
+    if (codeBlockInfo.fragment) {
+      codeBlockInfo.fragment = alignFragment(codeBlockInfo.fragment, target.value)
+    }
+
+    if (isSamePath(target.path, codeBlockInfo.path)) {
       return
     }
 
-    try {
-      // Get complete content of original document
-      const originalText = originalDocument.getText()
+    console.log(`[CodeEditor] Edited string moved: ${codeBlockInfo.keyPath} -> ${target.keyPath}`)
+    codeBlockInfo.path = target.path
+    codeBlockInfo.keyPath = target.keyPath
+    const fieldName = target.path.filter(segment => typeof segment === 'string').pop()
+    if (fieldName) {
+      codeBlockInfo.fieldName = fieldName
+    }
+
+    // Re-key the editor so opening the new path reuses it; keep the old key if another editor holds the new one
+    const oldKey = editorInfo.uniqueKey
+    const newKey = this.generateUniqueKey(editorInfo.originalUri, target.path, codeBlockInfo.fragment)
+    if (this.activeEditors.has(newKey)) {
+      return
+    }
+    this.activeEditors.delete(oldKey)
+    this.activeEditors.set(newKey, editorInfo)
+    const timer = this.liveSyncTimers.get(oldKey)
+    if (timer) {
+      this.liveSyncTimers.delete(oldKey)
+      this.liveSyncTimers.set(newKey, timer)
+    }
+    editorInfo.uniqueKey = newKey
+    this.persistSessions()
+    // The session now belongs to another string
+    this.notifySessionsChanged()
+  }
+
+  /**
+   * Move the tracked literal offsets through changes of the original document
+   */
+  private trackTargetThroughChanges(editorInfo: EditorInfo, changes: readonly vscode.TextDocumentContentChangeEvent[]): void {
+    if (!editorInfo.targetTracked) {
+      return
+    }
+
+    const { codeBlockInfo } = editorInfo
+    let range: OffsetRange | null = { start: codeBlockInfo.start, end: codeBlockInfo.end }
+    for (const change of changes) {
+      range = shiftRangeThroughChange(range, { offset: change.rangeOffset, length: change.rangeLength, content: change.text })
+      if (!range) {
+        break
+      }
+    }
+
+    if (range) {
+      codeBlockInfo.start = range.start
+      codeBlockInfo.end = range.end
+    }
+    else {
+      console.log(`[CodeEditor] Lost offset tracking for ${editorInfo.uniqueKey}, falling back to key path`)
+      editorInfo.targetTracked = false
+    }
+  }
+
+  /**
+   * Get the current JSON string value if it differs from the editor's base value
+   * @returns Current value, or undefined if the value is unchanged
+   */
+  private getChangedOriginalValue(editorInfo: EditorInfo, originalDocument: vscode.TextDocument, target: StringTarget): string | undefined {
+    // Unchanged document version means the value can't have changed
+    if (originalDocument.version === editorInfo.originalVersion) {
+      return undefined
+    }
+    const value = this.getEditedValue(editorInfo, target)
+    return value === editorInfo.originalCode ? undefined : value
+  }
+
+  /**
+   * Ask the user how to handle a value that changed in both the temporary editor and the original file
+   * @returns Whether the temporary editor content should be written as is
+   */
+  private async resolveConflict(editorInfo: EditorInfo, originalDocument: vscode.TextDocument, mine: string, theirs: string): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+      `"${editorInfo.codeBlockInfo.keyPath}" was changed in the original file after the temporary editor was opened.`,
+      { modal: true, detail: 'Keep your version, take the current value from the file, or merge both in the temporary editor.' },
+      'Keep Mine',
+      'Take Theirs',
+      'Open Merge View',
+    )
+
+    switch (choice) {
+      case 'Keep Mine':
+        return true
+      case 'Take Theirs':
+        this.updateBase(editorInfo, originalDocument, theirs)
+        await this.replaceTempDocumentContent(editorInfo.document, theirs)
+        return false
+      case 'Open Merge View':
+        await this.openMergeView(editorInfo, originalDocument, mine, theirs)
+        return false
+      default:
+        console.log('[CodeEditor] Conflict resolution cancelled')
+        return false
+    }
+  }
+
+  /**
+   * Merge both versions into the temporary editor and show it next to the current file value
+   */
+  private async openMergeView(editorInfo: EditorInfo, originalDocument: vscode.TextDocument, mine: string, theirs: string): Promise<void> {
+    const merge = mergeThreeWay(editorInfo.originalCode, mine, theirs)
+
+    // The current file value becomes the new base, so saving the merged result applies it without another conflict
+    this.updateBase(editorInfo, originalDocument, theirs)
+    await this.replaceTempDocumentContent(editorInfo.document, merge.text)
+
+    const extension = path.extname(editorInfo.document.uri.path)
+    const theirsUri = this.previewProvider.setContent(`${editorInfo.safeFileName}.theirs${extension}`, theirs)
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      theirsUri,
+      editorInfo.document.uri,
+      `${editorInfo.codeBlockInfo.fieldName}: Theirs ↔ Merged`,
+    )
 
-      // Parse JSON to maintain format
-      const jsonObject = JSON.parse(originalText)
+    if (merge.conflicts > 0) {
+      vscode.window.showWarningMessage(`${merge.conflicts} conflict(s) marked in the temporary editor. Resolve them and save again.`)
+    }
+    else {
+      vscode.window.showInformationMessage('Changes merged without conflicts. Save again to apply them.')
+    }
+  }
 
-      // Update corresponding value based on keyPath
-      this.updateJsonValueByPath(jsonObject, codeBlockInfo.keyPath, newCode)
+  /**
+   * Check whether saves of an editor are reviewed in a diff before they are applied
+   */
+  private isReviewBeforeApplyEnabled(editorInfo: EditorInfo): boolean {
+    return vscode.workspace.getConfiguration('vscode-json-string-code-editor', editorInfo.originalUri).get<boolean>('reviewBeforeApply', false)
+  }
 
-      // Reformat JSON, maintain indentation
-      const formattedJson = JSON.stringify(jsonObject, null, 2)
+  /**
+   * Show the original document before and after writing the code, and ask whether to apply the change
+   * @returns Whether the change was approved while the original document stayed unchanged
+   */
+  private async reviewChange(editorInfo: EditorInfo, originalDocument: vscode.TextDocument, target: StringTarget, newCode: string): Promise<boolean> {
+    const reviewedVersion = originalDocument.version
+    const before = originalDocument.getText()
+    const after = applyReplacement(before, replaceTargetValue(before, target, this.getNewValue(editorInfo, newCode), this.getEscapeSettings(editorInfo)))
+
+    const fileName = path.posix.basename(originalDocument.uri.path)
+    const beforeUri = this.previewProvider.setContent(`${editorInfo.safeFileName}.before/${fileName}`, before)
+    const afterUri = this.previewProvider.setContent(`${editorInfo.safeFileName}.after/${fileName}`, after)
 
-      // Apply changes to original document
-      const edit = new vscode.WorkspaceEdit()
-      const fullRange = new vscode.Range(
-        originalDocument.positionAt(0),
-        originalDocument.positionAt(originalText.length),
+    try {
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        beforeUri,
+        afterUri,
+        `${fileName}: Review ${target.keyPath}`,
       )
-      edit.replace(originalDocument.uri, fullRange, formattedJson)
 
-      const success = await vscode.workspace.applyEdit(edit)
-      if (success) {
-        // Update stored original code
-        targetEditorInfo.originalCode = newCode
-        vscode.window.showInformationMessage('Code saved to original file')
+      const choice = await vscode.window.showInformationMessage(
+        `Apply the change to "${target.keyPath}" in ${fileName}?`,
+        'Apply',
+        'Discard',
+      )
+      if (choice !== 'Apply') {
+        console.log(`[CodeEditor] Change discarded in review: ${editorInfo.uniqueKey}`)
+        return false
       }
-      else {
-        vscode.window.showErrorMessage('Save failed')
+
+      // The reviewed text is only valid for the version it was computed from
+      if (originalDocument.version !== reviewedVersion) {
+        vscode.window.showWarningMessage(`${fileName} changed during the review. Save again to review the current change.`)
+        return false
       }
+      return true
     }
-    catch (error) {
-      console.error('[CodeEditor] JSON parsing or save failed:', error)
-      vscode.window.showErrorMessage(`Save failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    finally {
+      await this.closeDiffTabs(afterUri)
+      this.previewProvider.deleteContent(beforeUri)
+      this.previewProvider.deleteContent(afterUri)
+    }
+  }
+
+  /**
+   * Close diff tabs showing the given document on their modified side
+   */
+  private async closeDiffTabs(modifiedUri: vscode.Uri): Promise<void> {
+    const key = modifiedUri.toString()
+    const tabs = vscode.window.tabGroups.all
+      .flatMap(group => group.tabs)
+      .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === key)
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs)
+    }
+  }
+
+  /**
+   * Replace temporary document content with a minimal edit to keep cursor and selections stable
+   */
+  private async replaceTempDocumentContent(tempDocument: vscode.TextDocument, newContent: string): Promise<void> {
+    const replacement = computeMinimalReplacement(tempDocument.getText(), newContent)
+    if (!replacement) {
+      return
+    }
+
+    const edit = new vscode.WorkspaceEdit()
+    const range = new vscode.Range(
+      tempDocument.positionAt(replacement.offset),
+      tempDocument.positionAt(replacement.offset + replacement.length),
+    )
+    edit.replace(tempDocument.uri, range, replacement.content)
+    const key = tempDocument.uri.toString()
+    this.replacingTempContent.add(key)
+    try {
+      await vscode.workspace.applyEdit(edit)
+    }
+    finally {
+      this.replacingTempContent.delete(key)
     }
   }
 
   /**
-   * Update value in JSON object based on path
-   * Supports both object properties and array indices (e.g., "items.[0].name")
+   * Check whether temporary editors for a document use the virtual file system
    */
-  private updateJsonValueByPath(obj: any, keyPath: string, newValue: string): void {
-    // Parse keyPath to handle both object properties and array indices
-    // e.g., "config.items.[0].name" -> ["config", "items", "[0]", "name"]
-    const keys = this.parseKeyPath(keyPath)
-    let current = obj
+  private isVirtualFileSystemEnabled(originalUri: vscode.Uri): boolean {
+    return vscode.workspace.getConfiguration('vscode-json-string-code-editor', originalUri).get<boolean>('virtualFileSystem', false)
+  }
 
-    // Navigate to target object
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i]
-      const parsedKey = this.parseArrayIndex(key)
+  /**
+   * Get virtual file URI for a temporary editor, placed under the path of its original document
+   * e.g. json-string:/config/flow.json/1a2b3c4d/flow.json › script.js
+   */
+  private getVirtualFileUri(originalUri: vscode.Uri, fileName: string): vscode.Uri {
+    const sourcePath = getSourceDisplayPath(originalUri)
+    return vscode.Uri.from({ scheme: CODE_STRING_SCHEME, path: `/${sourcePath}/${fileName}` })
+  }
 
-      if (parsedKey.isArray) {
-        // Access array element
-        if (!Array.isArray(current)) {
-          throw new TypeError(`Expected array at path, but got ${typeof current}`)
+  /**
+   * Check whether live sync is enabled for the original document of an editor
+   */
+  private isLiveSyncEnabled(editorInfo: EditorInfo): boolean {
+    return vscode.workspace.getConfiguration('vscode-json-string-code-editor', editorInfo.originalUri).get<boolean>('liveSync', false)
+  }
+
+  /**
+   * Handle document changes for live sync
+   * Changes in a temporary document are debounced into the original JSON string,
+   * changes in an original document are reflected into its open temporary editors
+   */
+  handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+    if (event.contentChanges.length === 0) {
+      return
+    }
+
+    // The temporary document of a parent editor is also the original document of its nested editors
+    // Content the extension put into a temporary document already matches the JSON string, it isn't synced back
+    const { document } = event
+    for (const editorInfo of this.activeEditors.values()) {
+      if (editorInfo.document === document) {
+        if (!this.replacingTempContent.has(document.uri.toString())) {
+          this.scheduleSyncToOriginal(editorInfo)
         }
-        current = current[parsedKey.index!]
+        break
       }
-      else {
-        // Access object property
-        if (current[parsedKey.key] === undefined) {
-          current[parsedKey.key] = {}
-        }
-        current = current[parsedKey.key]
+    }
+
+    for (const editorInfo of [...this.activeEditors.values()]) {
+      if (!editorInfo.document.isClosed && document.uri.toString() === editorInfo.originalUri.toString()) {
+        this.trackTargetThroughChanges(editorInfo, event.contentChanges)
+        void this.syncToTempDocument(editorInfo, document)
+        void this.notifyVirtualFileChange(editorInfo, document)
       }
     }
+  }
+
+  /**
+   * Debounce syncing temporary document content to the original document
+   */
+  private scheduleSyncToOriginal(editorInfo: EditorInfo): void {
+    if (!this.isLiveSyncEnabled(editorInfo)) {
+      return
+    }
+
+    const delay = vscode.workspace.getConfiguration('vscode-json-string-code-editor', editorInfo.originalUri).get<number>('liveSyncDelay', 300)
+
+    this.clearLiveSyncTimer(editorInfo.uniqueKey)
+    this.liveSyncTimers.set(editorInfo.uniqueKey, setTimeout(() => {
+      this.liveSyncTimers.delete(editorInfo.uniqueKey)
+      void this.syncToOriginal(editorInfo)
+    }, delay))
+  }
+
+  private clearLiveSyncTimer(uniqueKey: string): void {
+    const timer = this.liveSyncTimers.get(uniqueKey)
+    if (timer) {
+      clearTimeout(timer)
+      this.liveSyncTimers.delete(uniqueKey)
+    }
+  }
+
+  /**
+   * Sync temporary document content into the original JSON string
+   */
+  private async syncToOriginal(editorInfo: EditorInfo): Promise<void> {
+    if (editorInfo.document.isClosed) {
+      return
+    }
+
+    const originalDocument = await openSourceDocument(editorInfo.originalUri)
+    if (!originalDocument) {
+      console.log(`[CodeEditor] Live sync skipped, original document cannot be opened: ${editorInfo.uniqueKey}`)
+      return
+    }
+
+    const target = await this.resolveTarget(editorInfo, originalDocument, false)
+    if (!target) {
+      console.log(`[CodeEditor] Live sync skipped, edited string could not be located: ${editorInfo.uniqueKey}`)
+      return
+    }
 
-    // Set final value
-    const finalKey = keys[keys.length - 1]
-    const parsedFinalKey = this.parseArrayIndex(finalKey)
+    // Without edits since the last sync, the JSON string is newer than the temporary document
+    const newCode = this.getEditorValue(editorInfo)
+    if (newCode === editorInfo.originalCode || this.getEditedValue(editorInfo, target) === newCode) {
+      return
+    }
 
-    if (parsedFinalKey.isArray) {
-      if (!Array.isArray(current)) {
-        throw new TypeError(`Expected array at final path, but got ${typeof current}`)
+    this.syncingToOriginal.add(editorInfo.uniqueKey)
+    try {
+      if (await this.writeCodeToOriginal(editorInfo, originalDocument, target, newCode)) {
+        editorInfo.liveSynced = true
       }
-      current[parsedFinalKey.index!] = newValue
     }
-    else {
-      current[parsedFinalKey.key] = newValue
+    catch (error) {
+      console.error('[CodeEditor] Live sync to original document failed:', error)
+    }
+    finally {
+      this.syncingToOriginal.delete(editorInfo.uniqueKey)
     }
   }
 
   /**
-   * Parse keyPath string into array of keys
-   * Handles both dot notation and array indices
+   * Reflect the current JSON string value into the temporary document
    */
-  private parseKeyPath(keyPath: string): string[] {
-    // Split by dots, but keep array indices intact
-    // e.g., "config.items.[0].name" -> ["config", "items", "[0]", "name"]
-    return keyPath.split('.').filter(key => key.length > 0)
+  private async syncToTempDocument(editorInfo: EditorInfo, originalDocument: vscode.TextDocument): Promise<void> {
+    // Skip our own write-back and local edits not synced yet, the temporary document is authoritative while typing
+    if (this.syncingToOriginal.has(editorInfo.uniqueKey) || this.liveSyncTimers.has(editorInfo.uniqueKey)) {
+      return
+    }
+    if (this.getEditorValue(editorInfo) !== editorInfo.originalCode) {
+      return
+    }
+    if (!this.isLiveSyncEnabled(editorInfo)) {
+      return
+    }
+
+    const target = await this.resolveTarget(editorInfo, originalDocument, false)
+    const value = target && this.getEditedValue(editorInfo, target)
+    if (value === undefined || value === this.getEditorValue(editorInfo)) {
+      return
+    }
+
+    this.updateBase(editorInfo, originalDocument, value)
+    await this.replaceTempDocumentContent(editorInfo.document, value)
   }
 
   /**
-   * Parse a key to determine if it's an array index
+   * Report a changed JSON string of a virtual temporary document, VS Code reloads it unless it has unsaved changes
+   * Live sync updates the document itself instead
    */
-  private parseArrayIndex(key: string): { isArray: boolean, index?: number, key: string } {
-    const arrayMatch = key.match(/^\[(\d+)\]$/)
-    if (arrayMatch) {
-      return {
-        isArray: true,
-        index: Number.parseInt(arrayMatch[1], 10),
-        key,
-      }
+  private async notifyVirtualFileChange(editorInfo: EditorInfo, originalDocument: vscode.TextDocument): Promise<void> {
+    if (editorInfo.document.uri.scheme !== CODE_STRING_SCHEME || this.isLiveSyncEnabled(editorInfo)) {
+      return
+    }
+
+    const target = await this.resolveTarget(editorInfo, originalDocument, false)
+    const value = target && this.getEditedValue(editorInfo, target)
+    if (value === undefined || value === this.getEditorValue(editorInfo)) {
+      return
     }
+
+    // The reloaded value is what the next save is based on
+    if (!editorInfo.document.isDirty) {
+      this.updateBase(editorInfo, originalDocument, value)
+    }
+    this.onDidChangeVirtualFileEmitter.fire(editorInfo.document.uri)
+  }
+
+  /**
+   * Get how edited strings of an editor are escaped
+   */
+  private getEscapeSettings(editorInfo: EditorInfo): EscapeSettings {
+    const config = vscode.workspace.getConfiguration('vscode-json-string-code-editor', editorInfo.originalUri)
     return {
-      isArray: false,
-      key,
+      nonAscii: config.get<EscapeSettings['nonAscii']>('escape.nonAscii', 'preserve'),
+      forwardSlash: config.get<EscapeSettings['forwardSlash']>('escape.forwardSlash', 'preserve'),
+    }
+  }
+
+  /**
+   * Find the editor a command was invoked on
+   * Editor title bar actions pass the URI of their document, the command palette passes nothing
+   */
+  private getCommandEditorInfo(uri?: vscode.Uri): EditorInfo | null {
+    const editorInfo = uri ? this.findEditorInfoByUri(uri) ?? null : this.getCurrentEditorInfo()
+    if (!editorInfo) {
+      vscode.window.showInformationMessage('The active editor is not editing a JSON string')
+    }
+    return editorInfo
+  }
+
+  /**
+   * Replace the content of a temporary editor with the value it had when it was opened
+   * Live sync passes the reverted value on to the JSON string
+   */
+  async revertToOriginal(uri?: vscode.Uri): Promise<void> {
+    const editorInfo = this.getCommandEditorInfo(uri)
+    if (!editorInfo) {
+      return
+    }
+
+    console.log(`[CodeEditor] Reverting editor to original value, unique key: ${editorInfo.uniqueKey}`)
+    await this.replaceTempDocumentContent(editorInfo.document, editorInfo.openedCode)
+    this.scheduleSyncToOriginal(editorInfo)
+  }
+
+  /**
+   * Write a temporary editor back to the JSON string and close it once written
+   */
+  async applyAndClose(uri?: vscode.Uri): Promise<void> {
+    const editorInfo = this.getCommandEditorInfo(uri)
+    if (!editorInfo) {
+      return
+    }
+
+    const applied = await this.saveEditorToOriginal(editorInfo, editorInfo.document.getText())
+    if (applied) {
+      await this.closeTempEditor(editorInfo)
     }
   }
 
   /**
-   * Escape string
+   * Close a temporary editor without writing its changes back
+   * Changes live sync already wrote are undone by writing back the value from when the editor was opened
    */
-  private escapeString(str: string): string {
-    return str
-      .replace(/\\/g, '\\\\')
-      .replace(/"/g, '\\"')
-      .replace(/\n/g, '\\n')
-      .replace(/\r/g, '\\r')
-      .replace(/\t/g, '\\t')
+  async discardAndClose(uri?: vscode.Uri): Promise<void> {
+    const editorInfo = this.getCommandEditorInfo(uri)
+    if (!editorInfo) {
+      return
+    }
+
+    this.clearLiveSyncTimer(editorInfo.uniqueKey)
+    if (editorInfo.liveSynced && !await this.restoreOpenedValue(editorInfo)) {
+      return
+    }
+    await this.closeTempEditor(editorInfo)
+  }
+
+  /**
+   * Write the value from when an editor was opened back to its JSON string
+   * @returns Whether the JSON string holds the opened value
+   */
+  private async restoreOpenedValue(editorInfo: EditorInfo): Promise<boolean> {
+    const originalDocument = await openSourceDocument(editorInfo.originalUri)
+    if (!originalDocument) {
+      vscode.window.showErrorMessage('Cannot find original document')
+      return false
+    }
+
+    const target = await this.resolveTarget(editorInfo, originalDocument, true)
+    if (!target) {
+      return false
+    }
+    const value = this.getEditedValue(editorInfo, target)
+    if (value === editorInfo.openedCode) {
+      return true
+    }
+    // A value changed elsewhere after the last sync isn't the editor's to undo
+    if (value !== editorInfo.originalCode) {
+      return true
+    }
+
+    this.syncingToOriginal.add(editorInfo.uniqueKey)
+    try {
+      return await this.writeCodeToOriginal(editorInfo, originalDocument, target, editorInfo.openedCode)
+    }
+    finally {
+      this.syncingToOriginal.delete(editorInfo.uniqueKey)
+    }
+  }
+
+  /**
+   * Close a temporary editor, reverting its document first so closing doesn't prompt to save it
+   */
+  private async closeTempEditor(editorInfo: EditorInfo): Promise<void> {
+    await vscode.window.showTextDocument(editorInfo.document, { preview: false })
+    await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor')
+  }
+
+  /**
+   * Select the part of the JSON string that the selections of a temporary editor cover, in the escaped source text
+   */
+  async revealInSource(uri?: vscode.Uri): Promise<void> {
+    const editorInfo = this.getCommandEditorInfo(uri)
+    if (!editorInfo) {
+      return
+    }
+
+    const located = await this.locateOriginalString(editorInfo)
+    if (!located) {
+      return
+    }
+    const { originalDocument, target } = located
+
+    // Selections of a background editor are kept by its last known editor
+    const tempEditor = vscode.window.visibleTextEditors.find(editor => editor.document === editorInfo.document) ?? editorInfo.editor
+    const selections = tempEditor?.selections ?? [new vscode.Selection(0, 0, 0, 0)]
+    const offsetMap = createValueOffsetMap(originalDocument.getText(), target.node)
+    const { fragment } = editorInfo.codeBlockInfo
+    const editedMap = fragment ? offsetMap.slice(fragment.start, fragment.end + 1) : offsetMap
+    const editedValue = this.getEditedValue(editorInfo, target)
+    const editedText = editorInfo.document.getText()
+    const sourceSelections = selections.map((selection) => {
+      const anchor = editorInfo.document.offsetAt(selection.anchor)
+      const active = editorInfo.document.offsetAt(selection.active)
+      const range = mapEditedRangeToDocument(editedMap, editedValue, editedText, { start: Math.min(anchor, active), end: Math.max(anchor, active) })
+      const [start, end] = [originalDocument.positionAt(range.start), originalDocument.positionAt(range.end)]
+      return anchor <= active ? new vscode.Selection(start, end) : new vscode.Selection(end, start)
+    })
+
+    const sourceEditor = await this.showOriginalDocument(originalDocument)
+    sourceEditor.selections = sourceSelections
+    sourceEditor.revealRange(sourceSelections[0], vscode.TextEditorRevealType.InCenterIfOutsideViewport)
+  }
+
+  /**
+   * Go to the JSON string of a temporary editor and highlight it for a moment
+   */
+  async goToSource(uri?: vscode.Uri): Promise<void> {
+    const editorInfo = this.getCommandEditorInfo(uri)
+    if (!editorInfo) {
+      return
+    }
+
+    const located = await this.locateOriginalString(editorInfo)
+    if (!located) {
+      return
+    }
+    const { originalDocument, target } = located
+
+    // Fragments highlight only their part of the escaped string
+    const { fragment } = editorInfo.codeBlockInfo
+    const offsetMap = fragment && createValueOffsetMap(originalDocument.getText(), target.node)
+    const start = offsetMap ? offsetMap[fragment.start] : target.node.offset
+    const end = offsetMap ? offsetMap[fragment.end] : target.node.offset + target.node.length
+    const range = new vscode.Range(originalDocument.positionAt(start), originalDocument.positionAt(end))
+
+    const sourceEditor = await this.showOriginalDocument(originalDocument)
+    sourceEditor.selection = new vscode.Selection(range.start, range.start)
+    sourceEditor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport)
+    this.highlightSource(sourceEditor, range)
+  }
+
+  /**
+   * Locate the JSON string of a temporary editor for a command, telling the user if it can't be found
+   */
+  private async locateOriginalString(editorInfo: EditorInfo): Promise<{ originalDocument: vscode.TextDocument, target: StringTarget } | undefined> {
+    const originalDocument = await openSourceDocument(editorInfo.originalUri)
+    const target = originalDocument && await this.resolveTarget(editorInfo, originalDocument, false)
+    if (!originalDocument || !target) {
+      vscode.window.showWarningMessage(`Cannot find "${editorInfo.codeBlockInfo.keyPath}" in the original file anymore. The string may have been moved or removed.`)
+      return undefined
+    }
+    return { originalDocument, target }
+  }
+
+  /**
+   * Show the original document of a temporary editor
+   * Keeps the JSON file where it is shown, usually the group next to the temporary editor
+   */
+  private async showOriginalDocument(originalDocument: vscode.TextDocument): Promise<vscode.TextEditor> {
+    return vscode.window.showTextDocument(originalDocument, {
+      viewColumn: vscode.window.visibleTextEditors.find(editor => editor.document === originalDocument)?.viewColumn ?? vscode.ViewColumn.One,
+      preview: false,
+    })
+  }
+
+  /**
+   * Highlight a range of the original document until the highlight of another string replaces it or it times out
+   */
+  private highlightSource(sourceEditor: vscode.TextEditor, range: vscode.Range): void {
+    this.clearSourceHighlight()
+    sourceEditor.setDecorations(this.sourceHighlight, [range])
+    this.sourceHighlightTimer = setTimeout(() => this.clearSourceHighlight(), SOURCE_HIGHLIGHT_DURATION)
+  }
+
+  private clearSourceHighlight(): void {
+    if (this.sourceHighlightTimer) {
+      clearTimeout(this.sourceHighlightTimer)
+      this.sourceHighlightTimer = undefined
+    }
+    for (const editor of vscode.window.visibleTextEditors) {
+      editor.setDecorations(this.sourceHighlight, [])
+    }
   }
 
   /**
@@ -411,7 +1535,7 @@ export class CodeEditorProvider {
     }
 
     for (const editorInfo of this.activeEditors.values()) {
-      if (editorInfo.editor === activeEditor) {
+      if (editorInfo.document === activeEditor.document) {
         return editorInfo
       }
     }
@@ -423,6 +1547,15 @@ export class CodeEditorProvider {
    * Clean up all editors
    */
   dispose(): void {
+    for (const timer of this.liveSyncTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.liveSyncTimers.clear()
+    clearTimeout(this.sourceHighlightTimer)
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+    this.disposables = []
     this.activeEditors.clear()
     this.singletonEditor = null
   }
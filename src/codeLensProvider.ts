@@ -0,0 +1,122 @@
+import type { CodeBlockInfo, CodeDetector } from './codeDetector'
+import type { shouldProcessFile } from './fileUtils'
+import type { LanguageSelector } from './languageSelector'
+import * as vscode from 'vscode'
+
+/**
+ * Lazy loaders of the detection modules, so registering a provider doesn't load them
+ */
+export interface DetectionDependencies {
+  getDetector: () => Promise<CodeDetector>
+  getLanguageSelector: () => Promise<typeof LanguageSelector>
+  getShouldProcessFile: () => Promise<typeof shouldProcessFile>
+}
+
+const DEFAULT_FIELD_NAMES = ['script', 'code', 'query', 'sql', 'template', 'expression', 'command']
+const DEFAULT_MAX_FILE_SIZE = 1048576
+
+/**
+ * Read the field names whose single-line strings count as code
+ * @param config Extension configuration
+ * @returns Lowercase field names
+ */
+export function getCodeFieldNames(config: vscode.WorkspaceConfiguration): Set<string> {
+  return new Set(config.get<string[]>('codeLens.fieldNames', DEFAULT_FIELD_NAMES).map(name => name.toLowerCase()))
+}
+
+/**
+ * Check whether a string looks like code: its language is configured, it spans lines or it belongs to a code field
+ * @param block Detected string
+ * @param fieldNames Lowercase field names from getCodeFieldNames
+ * @returns Returns true if the string should be offered for editing
+ */
+export function looksLikeCode(block: CodeBlockInfo, fieldNames: Set<string>): boolean {
+  return block.language !== undefined || block.code.includes('\n') || fieldNames.has(block.fieldName.toLowerCase())
+}
+
+/**
+ * CodeLens waiting for its language to be detected
+ */
+class CodeStringCodeLens extends vscode.CodeLens {
+  constructor(readonly documentUri: vscode.Uri, readonly codeBlockInfo: CodeBlockInfo) {
+    super(codeBlockInfo.range)
+  }
+}
+
+/**
+ * Show "Edit as <language>" above strings that look like code
+ * Strings are found in one pass per document version, languages are only detected for visible lenses
+ */
+export class CodeStringCodeLensProvider implements vscode.CodeLensProvider<CodeStringCodeLens> {
+  private onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>()
+  private cache = new WeakMap<vscode.TextDocument, { version: number, blocks: CodeBlockInfo[] }>()
+
+  readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event
+
+  constructor(private dependencies: DetectionDependencies) {}
+
+  /**
+   * Ask VS Code to request CodeLenses again, e.g. after the configuration changed
+   */
+  refresh(): void {
+    this.onDidChangeCodeLensesEmitter.fire()
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<CodeStringCodeLens[]> {
+    const config = vscode.workspace.getConfiguration('vscode-json-string-code-editor', document.uri)
+    if (!config.get<boolean>('codeLens.enabled', true)) {
+      return []
+    }
+
+    // Skip large files, scanning them on every change would slow down typing
+    if (document.getText().length > config.get<number>('codeLens.maxFileSize', DEFAULT_MAX_FILE_SIZE)) {
+      return []
+    }
+
+    const shouldProcessFile = await this.dependencies.getShouldProcessFile()
+    if (token.isCancellationRequested || !shouldProcessFile(document)) {
+      return []
+    }
+
+    const fieldNames = getCodeFieldNames(config)
+    const blocks = await this.getCodeBlocks(document)
+
+    return blocks
+      .filter(block => looksLikeCode(block, fieldNames))
+      .map(block => new CodeStringCodeLens(document.uri, block))
+  }
+
+  async resolveCodeLens(codeLens: CodeStringCodeLens): Promise<CodeStringCodeLens> {
+    const { codeBlockInfo } = codeLens
+    const LanguageSelector = await this.dependencies.getLanguageSelector()
+    const language = codeBlockInfo.language
+      ?? await LanguageSelector.detectLanguage(codeBlockInfo.fieldName, codeBlockInfo.code)
+      ?? 'plaintext'
+
+    codeLens.command = {
+      title: `Edit as ${LanguageSelector.getLanguageDisplayName(language)}`,
+      command: 'vscode-json-string-code-editor.editCodeAtRange',
+      arguments: [codeLens.documentUri.toString(), { ...codeBlockInfo, language }],
+    }
+    return codeLens
+  }
+
+  dispose(): void {
+    this.onDidChangeCodeLensesEmitter.dispose()
+  }
+
+  /**
+   * Get the code blocks of a document, reusing the result while the document is unchanged
+   */
+  private async getCodeBlocks(document: vscode.TextDocument): Promise<CodeBlockInfo[]> {
+    const cached = this.cache.get(document)
+    if (cached?.version === document.version) {
+      return cached.blocks
+    }
+
+    const detector = await this.dependencies.getDetector()
+    const blocks = await detector.detectAllCodeBlocks(document)
+    this.cache.set(document, { version: document.version, blocks })
+    return blocks
+  }
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode'
+
+export const CODE_STRING_SCHEME = 'json-string'
+
+/**
+ * Backing store of code string files, implemented by the editor provider
+ */
+export interface CodeStringSource {
+  /**
+   * Read the current unescaped value for a file, undefined if no session owns it
+   */
+  readCode: (uri: vscode.Uri) => Promise<string | undefined>
+  /**
+   * Write a new value back to the JSON document, returns whether it was applied
+   */
+  writeCode: (uri: vscode.Uri, code: string) => Promise<boolean>
+}
+
+/**
+ * In-memory file system exposing JSON string values as files
+ * e.g. json-string:/config/flow.json/1a2b3c4d/flow.json › script.js
+ * Nothing is written to disk, so it also works in remote, web and virtual workspaces
+ */
+export class CodeStringFileSystemProvider implements vscode.FileSystemProvider {
+  private onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>()
+  private files: Map<string, { code: string, mtime: number }> = new Map() // Last value served per file and when it changed
+  private encoder = new TextEncoder()
+  private decoder = new TextDecoder()
+
+  readonly onDidChangeFile = this.onDidChangeFileEmitter.event
+
+  constructor(private source: CodeStringSource) {}
+
+  watch(): vscode.Disposable {
+    // Changes are reported through onDidChangeFile for all files
+    return new vscode.Disposable(() => {})
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const code = await this.source.readCode(uri)
+    if (code === undefined) {
+      throw vscode.FileSystemError.FileNotFound(uri)
+    }
+
+    return {
+      type: vscode.FileType.File,
+      ctime: 0,
+      mtime: this.getModifiedTime(uri, code),
+      size: this.encoder.encode(code).byteLength,
+    }
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const code = await this.source.readCode(uri)
+    if (code === undefined) {
+      throw vscode.FileSystemError.FileNotFound(uri)
+    }
+    this.getModifiedTime(uri, code)
+    return this.encoder.encode(code)
+  }
+
+  async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    const code = this.decoder.decode(content)
+    const written = await this.source.writeCode(uri, code)
+    if (!written) {
+      throw vscode.FileSystemError.Unavailable('Changes were not written back to the JSON file')
+    }
+
+    this.setModifiedTime(uri, code)
+    this.notifyChanged(uri)
+  }
+
+  /**
+   * Report that the JSON string of a file changed, VS Code reloads documents without unsaved changes
+   */
+  notifyChanged(uri: vscode.Uri): void {
+    this.onDidChangeFileEmitter.fire([{ type: vscode.FileChangeType.Changed, uri }])
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return []
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri)
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri)
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri)
+  }
+
+  dispose(): void {
+    this.onDidChangeFileEmitter.dispose()
+  }
+
+  /**
+   * Get the modified time of a file, which only moves when its value changes
+   */
+  private getModifiedTime(uri: vscode.Uri, code: string): number {
+    const file = this.files.get(uri.toString())
+    return file?.code === code ? file.mtime : this.setModifiedTime(uri, code)
+  }
+
+  private setModifiedTime(uri: vscode.Uri, code: string): number {
+    const key = uri.toString()
+    // Always newer than before, VS Code compares modified times to notice changed files
+    const mtime = Math.max(Date.now(), (this.files.get(key)?.mtime ?? 0) + 1)
+    this.files.set(key, { code, mtime })
+    return mtime
+  }
+}
@@ -0,0 +1,218 @@
+import type { CodeBlockInfo } from './codeDetector'
+import type { DetectionDependencies } from './codeLensProvider'
+import * as vscode from 'vscode'
+import { getCodeFieldNames, looksLikeCode } from './codeLensProvider'
+import { getDefaultExcludePatterns, getDefaultIncludePatterns } from './fileUtils'
+import { logger } from './logger'
+import { createDocumentSnapshot, findOpenDocument } from './sourceDocument'
+
+const MAX_LINE_PREVIEW_LENGTH = 200
+
+/**
+ * Code string found by a search
+ */
+export interface CodeStringMatch {
+  uri: vscode.Uri // URI of the JSON file
+  codeBlockInfo: CodeBlockInfo
+  offset: number // Offset of the first match in the unescaped code
+  lineText: string // Line of the unescaped code containing the first match
+}
+
+/**
+ * Find text case-insensitively
+ * @param text Text to search
+ * @param query Text to find
+ * @param fromOffset Offset to start searching at
+ * @returns Offset of the match, or -1 if there is none
+ */
+export function findMatchOffset(text: string, query: string, fromOffset = 0): number {
+  return text.toLowerCase().indexOf(query.toLowerCase(), fromOffset)
+}
+
+/**
+ * Get the line containing an offset, shortened for display
+ */
+function getLineAt(text: string, offset: number): string {
+  const lineStart = Math.max(text.lastIndexOf('\n', offset - 1), text.lastIndexOf('\r', offset - 1)) + 1
+  const lineEnd = text.slice(offset).search(/[\r\n]/)
+  const line = text.slice(lineStart, lineEnd === -1 ? text.length : offset + lineEnd).trim()
+  return line.length > MAX_LINE_PREVIEW_LENGTH ? `${line.slice(0, MAX_LINE_PREVIEW_LENGTH)}…` : line
+}
+
+/**
+ * Combine glob patterns into one, as findFiles only takes a single pattern
+ */
+function combinePatterns(patterns: string[]): string {
+  return patterns.length === 1 ? patterns[0] : `{${patterns.join(',')}}`
+}
+
+/**
+ * Index of the code strings in all JSON files matched by the include and exclude settings
+ * The index is built on the first search, afterwards only files that changed are scanned again
+ */
+export class CodeStringIndex implements vscode.Disposable {
+  private entries: Map<string, CodeBlockInfo[]> = new Map() // Keyed by file URI
+  private files: Map<string, vscode.Uri> = new Map()
+  private staleFiles: Set<string> = new Set()
+  private built = false
+  private updating: Promise<void> | undefined
+  private watchers: vscode.Disposable[] = []
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private dependencies: DetectionDependencies) {
+    this.disposables.push(
+      // Unsaved changes are searched too
+      vscode.workspace.onDidChangeTextDocument(event => this.markStale(event.document.uri)),
+    )
+  }
+
+  /**
+   * Search the unescaped content of all code strings
+   * @param query Text to find, case-insensitive
+   * @returns Matching code strings, one per string with its first match
+   */
+  async search(query: string): Promise<CodeStringMatch[]> {
+    await this.update()
+
+    const matches: CodeStringMatch[] = []
+    for (const [key, blocks] of this.entries) {
+      const uri = this.files.get(key)
+      if (!uri) {
+        continue
+      }
+      for (const codeBlockInfo of blocks) {
+        const offset = findMatchOffset(codeBlockInfo.code, query)
+        if (offset !== -1) {
+          matches.push({ uri, codeBlockInfo, offset, lineText: getLineAt(codeBlockInfo.code, offset) })
+        }
+      }
+    }
+    return matches
+  }
+
+  /**
+   * Drop the index, e.g. after the include or exclude settings changed
+   * It is built again on the next search
+   */
+  reset(): void {
+    this.disposeWatchers()
+    this.entries.clear()
+    this.files.clear()
+    this.staleFiles.clear()
+    this.built = false
+  }
+
+  dispose(): void {
+    this.reset()
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+    this.disposables = []
+  }
+
+  /**
+   * Build the index if needed and scan files that changed since the last search
+   */
+  private async update(): Promise<void> {
+    // Searches started while scanning wait for the same scan
+    if (!this.updating) {
+      this.updating = this.scan().finally(() => {
+        this.updating = undefined
+      })
+    }
+    await this.updating
+  }
+
+  private async scan(): Promise<void> {
+    if (!this.built) {
+      await this.findAllFiles()
+      this.built = true
+    }
+
+    const staleFiles = [...this.staleFiles]
+    this.staleFiles.clear()
+    for (const key of staleFiles) {
+      const uri = this.files.get(key)
+      if (uri) {
+        await this.indexFile(uri)
+      }
+    }
+  }
+
+  private async findAllFiles(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('vscode-json-string-code-editor')
+    const includePatterns = config.get<string[]>('include', getDefaultIncludePatterns())
+    const excludePatterns = config.get<string[]>('exclude', getDefaultExcludePatterns())
+    const include = includePatterns.length > 0 ? includePatterns : ['**/*.json', '**/*.jsonc']
+
+    const uris = await vscode.workspace.findFiles(
+      combinePatterns(include),
+      excludePatterns.length > 0 ? combinePatterns(excludePatterns) : undefined,
+    )
+    for (const uri of uris) {
+      this.files.set(uri.toString(), uri)
+      this.staleFiles.add(uri.toString())
+    }
+
+    // Keep the index up to date without scanning the workspace again
+    for (const pattern of include) {
+      const watcher = vscode.workspace.createFileSystemWatcher(pattern)
+      watcher.onDidCreate(uri => this.addFile(uri))
+      watcher.onDidChange(uri => this.markStale(uri))
+      watcher.onDidDelete(uri => this.removeFile(uri))
+      this.watchers.push(watcher)
+    }
+  }
+
+  /**
+   * Scan one file, reading unsaved changes from its document if it is open
+   */
+  private async indexFile(uri: vscode.Uri): Promise<void> {
+    const key = uri.toString()
+    try {
+      const openDocument = findOpenDocument(uri)
+      const document = openDocument
+        ?? createDocumentSnapshot(uri, new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)))
+
+      const shouldProcessFile = await this.dependencies.getShouldProcessFile()
+      if (!shouldProcessFile(document)) {
+        this.entries.delete(key)
+        return
+      }
+
+      const detector = await this.dependencies.getDetector()
+      const fieldNames = getCodeFieldNames(vscode.workspace.getConfiguration('vscode-json-string-code-editor', uri))
+      const blocks = await detector.detectAllCodeBlocks(document)
+      this.entries.set(key, blocks.filter(block => looksLikeCode(block, fieldNames)))
+    }
+    catch (error) {
+      logger.warn(`Cannot index code strings of ${key}: ${error}`)
+      this.entries.delete(key)
+    }
+  }
+
+  private addFile(uri: vscode.Uri): void {
+    this.files.set(uri.toString(), uri)
+    this.staleFiles.add(uri.toString())
+  }
+
+  private markStale(uri: vscode.Uri): void {
+    if (this.files.has(uri.toString())) {
+      this.staleFiles.add(uri.toString())
+    }
+  }
+
+  private removeFile(uri: vscode.Uri): void {
+    const key = uri.toString()
+    this.files.delete(key)
+    this.entries.delete(key)
+    this.staleFiles.delete(key)
+  }
+
+  private disposeWatchers(): void {
+    for (const watcher of this.watchers) {
+      watcher.dispose()
+    }
+    this.watchers = []
+  }
+}
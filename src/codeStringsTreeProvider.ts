@@ -0,0 +1,214 @@
+import type { JSONPath } from 'jsonc-parser'
+import type { CodeBlockInfo } from './codeDetector'
+import type { DetectionDependencies } from './codeLensProvider'
+import * as vscode from 'vscode'
+import { getCodeFieldNames, looksLikeCode } from './codeLensProvider'
+import { segmentsToKeyPath, toJsonPointer } from './jsonUtils'
+
+export const CODE_STRINGS_VIEW_ID = 'vscode-json-string-code-editor.codeStrings'
+
+const REFRESH_DELAY = 300
+
+/**
+ * Object or array containing code strings
+ */
+export interface CodeStringGroupNode {
+  kind: 'group'
+  label: string // Key path of the group relative to its parent, e.g. "nodes.[0]"
+  path: JSONPath
+  keyPath: string
+  children: CodeStringNode[]
+}
+
+/**
+ * String value that looks like code
+ */
+export interface CodeStringEntryNode {
+  kind: 'string'
+  label: string // Last key path segment, e.g. "script" or "[2]"
+  codeBlockInfo: CodeBlockInfo
+}
+
+export type CodeStringNode = CodeStringGroupNode | CodeStringEntryNode
+
+/**
+ * Group code strings by their key paths
+ * Groups with a single child group are merged, so "config.database" shows as one node
+ * @param blocks Code strings in document order
+ * @returns Top-level nodes in document order
+ */
+export function buildCodeStringTree(blocks: CodeBlockInfo[]): CodeStringNode[] {
+  const root: CodeStringNode[] = []
+  const groups = new Map<string, CodeStringGroupNode>() // Keyed by JSON Pointer
+
+  for (const block of blocks) {
+    const segments = block.path
+    let children = root
+    for (let index = 0; index < segments.length - 1; index++) {
+      const path = segments.slice(0, index + 1)
+      const pointer = toJsonPointer(path)
+      let group = groups.get(pointer)
+      if (!group) {
+        group = { kind: 'group', label: segmentsToKeyPath([segments[index]]), path, keyPath: segmentsToKeyPath(path), children: [] }
+        groups.set(pointer, group)
+        children.push(group)
+      }
+      children = group.children
+    }
+    children.push({ kind: 'string', label: segmentsToKeyPath(segments.slice(-1)), codeBlockInfo: block })
+  }
+
+  return root.map(mergeSingleChildGroups)
+}
+
+function mergeSingleChildGroups(node: CodeStringNode): CodeStringNode {
+  if (node.kind === 'string') {
+    return node
+  }
+
+  const [child] = node.children
+  if (node.children.length === 1 && child.kind === 'group') {
+    return mergeSingleChildGroups({ ...child, label: `${node.label}.${child.label}` })
+  }
+  return { ...node, children: node.children.map(mergeSingleChildGroups) }
+}
+
+/**
+ * Count the lines of a string value
+ */
+function countLines(code: string): number {
+  return code.split(/\r\n|\r|\n/).length
+}
+
+/**
+ * List the code strings of the active JSON document in the Explorer, grouped by key path
+ * The last JSON document stays listed while a temporary editor or another file is active
+ */
+export class CodeStringsTreeProvider implements vscode.TreeDataProvider<CodeStringNode>, vscode.Disposable {
+  private onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>()
+  private document: vscode.TextDocument | undefined
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined
+  private disposables: vscode.Disposable[] = []
+
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event
+
+  /**
+   * @param dependencies Lazy loaders of the detection modules
+   * @param isEditorOpen Check whether a temporary editor is open for a string
+   */
+  constructor(
+    private dependencies: DetectionDependencies,
+    private isEditorOpen: (uri: vscode.Uri, path: JSONPath) => boolean,
+  ) {
+    this.setActiveEditor(vscode.window.activeTextEditor)
+    this.disposables.push(
+      this.onDidChangeTreeDataEmitter,
+      vscode.window.onDidChangeActiveTextEditor(editor => this.setActiveEditor(editor)),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.document === this.document) {
+          this.scheduleRefresh()
+        }
+      }),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (document === this.document) {
+          this.document = undefined
+          this.refresh()
+        }
+      }),
+    )
+  }
+
+  /**
+   * Ask VS Code to request the tree again, e.g. after the configuration or the open temporary editors changed
+   */
+  refresh(): void {
+    clearTimeout(this.refreshTimer)
+    this.refreshTimer = undefined
+    this.onDidChangeTreeDataEmitter.fire()
+  }
+
+  async getChildren(element?: CodeStringNode): Promise<CodeStringNode[]> {
+    if (element) {
+      return element.kind === 'group' ? element.children : []
+    }
+
+    const document = this.document
+    if (!document) {
+      return []
+    }
+
+    const shouldProcessFile = await this.dependencies.getShouldProcessFile()
+    if (!shouldProcessFile(document)) {
+      return []
+    }
+
+    const detector = await this.dependencies.getDetector()
+    const config = vscode.workspace.getConfiguration('vscode-json-string-code-editor', document.uri)
+    const fieldNames = getCodeFieldNames(config)
+    const blocks = await detector.detectAllCodeBlocks(document)
+    return buildCodeStringTree(blocks.filter(block => looksLikeCode(block, fieldNames)))
+  }
+
+  async getTreeItem(element: CodeStringNode): Promise<vscode.TreeItem> {
+    if (element.kind === 'group') {
+      const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded)
+      item.id = `group:${toJsonPointer(element.path)}`
+      item.tooltip = element.keyPath
+      item.iconPath = new vscode.ThemeIcon('symbol-namespace')
+      return item
+    }
+
+    const { codeBlockInfo } = element
+    const documentUri = this.document?.uri
+    const LanguageSelector = await this.dependencies.getLanguageSelector()
+    const language = codeBlockInfo.language
+      ?? await LanguageSelector.detectLanguage(codeBlockInfo.fieldName, codeBlockInfo.code)
+      ?? 'plaintext'
+    const lineCount = countLines(codeBlockInfo.code)
+    const isOpen = !!documentUri && this.isEditorOpen(documentUri, codeBlockInfo.path)
+
+    const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.None)
+    item.id = `string:${toJsonPointer(codeBlockInfo.path)}`
+    item.description = [
+      LanguageSelector.getLanguageDisplayName(language),
+      `${lineCount} ${lineCount === 1 ? 'line' : 'lines'}`,
+      ...(isOpen ? ['open'] : []),
+    ].join(' · ')
+    item.tooltip = codeBlockInfo.keyPath
+    item.iconPath = new vscode.ThemeIcon(isOpen ? 'edit' : codeBlockInfo.arrayLines ? 'symbol-array' : 'symbol-string')
+    item.command = {
+      title: 'Edit Code in Temporary Editor',
+      command: 'vscode-json-string-code-editor.editCodeAtRange',
+      arguments: [documentUri?.toString(), { ...codeBlockInfo, language }],
+    }
+    return item
+  }
+
+  dispose(): void {
+    clearTimeout(this.refreshTimer)
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+    this.disposables = []
+  }
+
+  /**
+   * Follow the active editor, ignoring editors that aren't JSON such as temporary editors
+   */
+  private setActiveEditor(editor: vscode.TextEditor | undefined): void {
+    const document = editor?.document
+    if (!document || !['json', 'jsonc'].includes(document.languageId) || document === this.document) {
+      return
+    }
+    this.document = document
+    this.refresh()
+  }
+
+  /**
+   * Refresh once typing pauses, rescanning on every keystroke would slow down large files
+   */
+  private scheduleRefresh(): void {
+    clearTimeout(this.refreshTimer)
+    this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_DELAY)
+  }
+}
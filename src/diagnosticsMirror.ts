@@ -0,0 +1,195 @@
+import type { StringFragment, StringTarget } from './jsonUtils'
+import * as vscode from 'vscode'
+import { createValueOffsetMap, mapEditedRangeToDocument } from './jsonUtils'
+import { findOpenDocument } from './sourceDocument'
+
+const UPDATE_DELAY = 100
+
+/**
+ * String edited in a temporary document, located in its original document
+ */
+export interface SourceString {
+  document: vscode.TextDocument // Original document
+  target: StringTarget
+  fragment?: StringFragment // Part of the value the temporary document edits, aligned with the target
+}
+
+/**
+ * Temporary editors whose diagnostics are mirrored, implemented by the editor provider
+ */
+export interface DiagnosticsSource {
+  /**
+   * Fired when temporary editors are opened or closed
+   */
+  onDidChangeSessions: vscode.Event<void>
+  /**
+   * Get the URIs of the open temporary documents
+   */
+  getTempUris: () => vscode.Uri[]
+  /**
+   * Locate the string a temporary document edits, undefined if it can't be located reliably
+   */
+  locateString: (tempUri: vscode.Uri) => SourceString | undefined
+}
+
+/**
+ * Diagnostics mirrored from one temporary document
+ */
+interface MirroredDiagnostics {
+  originalUri: vscode.Uri
+  diagnostics: vscode.Diagnostic[]
+}
+
+/**
+ * Mirrors the diagnostics of temporary documents, such as TypeScript or ESLint problems, onto their strings in the JSON file
+ * Diagnostics of nested editors reach the JSON file through the temporary documents of their parents
+ */
+export class DiagnosticsMirror implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection('vscode-json-string-code-editor')
+  private mirrored: Map<string, MirroredDiagnostics> = new Map() // Keyed by temporary document URI
+  private pendingOriginalKeys: Set<string> = new Set() // Original documents edited since the last update
+  private updateTimer: ReturnType<typeof setTimeout> | undefined
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private source: DiagnosticsSource) {
+    this.disposables.push(
+      this.collection,
+      vscode.languages.onDidChangeDiagnostics(event => this.updateTempDocuments(event.uris)),
+      // Mirrored ranges don't move with edits of the JSON file, map them again
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleOriginalDocumentUpdate(event.document.uri)),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('vscode-json-string-code-editor.mirrorDiagnostics')) {
+          this.updateAll()
+        }
+      }),
+      source.onDidChangeSessions(() => this.updateAll()),
+    )
+    this.updateAll()
+  }
+
+  /**
+   * Mirror the diagnostics of all temporary documents, dropping those of closed ones
+   */
+  updateAll(): void {
+    const tempUris = this.source.getTempUris()
+    const tempKeys = new Set(tempUris.map(uri => uri.toString()))
+    for (const [key, entry] of [...this.mirrored]) {
+      if (!tempKeys.has(key)) {
+        this.mirrored.delete(key)
+        this.publish(entry.originalUri)
+      }
+    }
+    for (const uri of tempUris) {
+      this.mirror(uri)
+    }
+  }
+
+  dispose(): void {
+    clearTimeout(this.updateTimer)
+    this.pendingOriginalKeys.clear()
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+    this.disposables = []
+    this.mirrored.clear()
+  }
+
+  private updateTempDocuments(uris: readonly vscode.Uri[]): void {
+    const tempKeys = new Set(this.source.getTempUris().map(uri => uri.toString()))
+    for (const uri of uris) {
+      if (tempKeys.has(uri.toString())) {
+        this.mirror(uri)
+      }
+    }
+  }
+
+  /**
+   * Map again once typing pauses, only edits of documents with mirrored strings move them
+   */
+  private scheduleOriginalDocumentUpdate(uri: vscode.Uri): void {
+    const key = uri.toString()
+    if (![...this.mirrored.values()].some(entry => entry.originalUri.toString() === key)) {
+      return
+    }
+
+    this.pendingOriginalKeys.add(key)
+    clearTimeout(this.updateTimer)
+    this.updateTimer = setTimeout(() => {
+      const keys = [...this.pendingOriginalKeys]
+      this.pendingOriginalKeys.clear()
+      for (const pendingKey of keys) {
+        this.updateOriginalDocument(pendingKey)
+      }
+    }, UPDATE_DELAY)
+  }
+
+  private updateOriginalDocument(key: string): void {
+    for (const [tempKey, entry] of [...this.mirrored]) {
+      if (entry.originalUri.toString() === key) {
+        this.mirror(vscode.Uri.parse(tempKey))
+      }
+    }
+  }
+
+  /**
+   * Map the current diagnostics of a temporary document onto its string
+   */
+  private mirror(tempUri: vscode.Uri): void {
+    const key = tempUri.toString()
+    const previous = this.mirrored.get(key)
+    const tempDocument = findOpenDocument(tempUri)
+    const sourceString = tempDocument && this.source.locateString(tempUri)
+
+    if (!tempDocument || !sourceString || !this.isEnabled(sourceString.document.uri)) {
+      this.mirrored.delete(key)
+    }
+    else {
+      const { document, target, fragment } = sourceString
+      const offsetMap = createValueOffsetMap(document.getText(), target.node)
+      const editedMap = fragment ? offsetMap.slice(fragment.start, fragment.end + 1) : offsetMap
+      const editedValue = fragment ? target.value.slice(fragment.start, fragment.end) : target.value
+      const editedText = tempDocument.getText()
+      const diagnostics = vscode.languages.getDiagnostics(tempUri).map((diagnostic) => {
+        const range = mapEditedRangeToDocument(editedMap, editedValue, editedText, {
+          start: tempDocument.offsetAt(diagnostic.range.start),
+          end: tempDocument.offsetAt(diagnostic.range.end),
+        })
+        const mirrored = new vscode.Diagnostic(
+          new vscode.Range(document.positionAt(range.start), document.positionAt(range.end)),
+          diagnostic.message,
+          diagnostic.severity,
+        )
+        mirrored.source = diagnostic.source
+        mirrored.code = diagnostic.code
+        mirrored.tags = diagnostic.tags
+        mirrored.relatedInformation = [
+          new vscode.DiagnosticRelatedInformation(new vscode.Location(tempUri, diagnostic.range), `In the temporary editor of "${target.keyPath}"`),
+        ]
+        return mirrored
+      })
+      this.mirrored.set(key, { originalUri: document.uri, diagnostics })
+    }
+
+    if (previous && previous.originalUri.toString() !== sourceString?.document.uri.toString()) {
+      this.publish(previous.originalUri)
+    }
+    if (sourceString) {
+      this.publish(sourceString.document.uri)
+    }
+  }
+
+  /**
+   * Set the diagnostics of a JSON document to those mirrored from all its temporary documents
+   */
+  private publish(originalUri: vscode.Uri): void {
+    const key = originalUri.toString()
+    const diagnostics = [...this.mirrored.values()]
+      .filter(entry => entry.originalUri.toString() === key)
+      .flatMap(entry => entry.diagnostics)
+    this.collection.set(originalUri, diagnostics)
+  }
+
+  private isEnabled(originalUri: vscode.Uri): boolean {
+    return vscode.workspace.getConfiguration('vscode-json-string-code-editor', originalUri).get<boolean>('mirrorDiagnostics', true)
+  }
+}
@@ -0,0 +1,262 @@
+import { parse } from 'jsonc-parser'
+import { computeMinimalReplacement } from './textUtils'
+
+/**
+ * How characters with a choice of encoding are written into JSON string literals
+ */
+export interface EscapeOptions {
+  nonAscii: 'keep' | 'escape' // Write characters outside ASCII as is or as \uXXXX
+  escapeSlash: boolean // Write "/" as "\/"
+  uppercaseHex?: boolean // Write \u escapes with uppercase hex digits
+}
+
+/**
+ * Escape settings, "preserve" follows the style of the literal being replaced
+ */
+export interface EscapeSettings {
+  nonAscii: 'preserve' | 'keep' | 'escape'
+  forwardSlash: 'preserve' | 'keep' | 'escape'
+}
+
+/**
+ * Piece of a string literal that decodes to a single UTF-16 code unit
+ */
+interface LiteralUnit {
+  raw: string // Source text, a character or an escape sequence
+  value: string // Decoded code unit
+}
+
+export const DEFAULT_ESCAPE_SETTINGS: EscapeSettings = { nonAscii: 'preserve', forwardSlash: 'preserve' }
+
+const DEFAULT_ESCAPE_OPTIONS: EscapeOptions = { nonAscii: 'keep', escapeSlash: false }
+
+const SHORT_ESCAPES: Record<string, string> = {
+  '"': '\\"',
+  '\\': '\\\\',
+  '\b': '\\b',
+  '\f': '\\f',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+}
+
+const DECODED_SHORT_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  'b': '\b',
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t',
+}
+
+function isSurrogate(charCode: number): boolean {
+  return charCode >= 0xD800 && charCode <= 0xDFFF
+}
+
+/**
+ * Check whether a literal piece is a high (0xD800) or low (0xDC00) surrogate written as is
+ */
+function isUnescapedSurrogate(unit: LiteralUnit, rangeStart: number): boolean {
+  const charCode = unit.value.charCodeAt(0)
+  return unit.raw === unit.value && charCode >= rangeStart && charCode <= rangeStart + 0x3FF
+}
+
+function toUnicodeEscape(charCode: number, uppercase = false): string {
+  const hex = charCode.toString(16).padStart(4, '0')
+  return `\\u${uppercase ? hex.toUpperCase() : hex}`
+}
+
+/**
+ * Decode a JSON string literal with jsonc-parser, the same way string values of the document are read
+ * @param literal String literal including the surrounding quotes
+ * @returns Decoded value, or undefined if the text isn't a string literal
+ */
+export function decodeJsonString(literal: string): string | undefined {
+  const value: unknown = parse(literal)
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Encode a value as the content of a JSON string literal, without the surrounding quotes
+ * Control characters and lone surrogates are always escaped so the literal stays valid JSON in UTF-8
+ * @param value Unescaped value
+ * @param options Escape options
+ * @returns Escaped content
+ */
+export function encodeJsonStringContent(value: string, options: EscapeOptions = DEFAULT_ESCAPE_OPTIONS): string {
+  const { uppercaseHex } = options
+  let result = ''
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index]
+    const charCode = value.charCodeAt(index)
+
+    if (char in SHORT_ESCAPES) {
+      result += SHORT_ESCAPES[char]
+    }
+    else if (char === '/') {
+      result += options.escapeSlash ? '\\/' : '/'
+    }
+    else if (charCode < 0x20) {
+      result += toUnicodeEscape(charCode, uppercaseHex)
+    }
+    else if (charCode >= 0xD800 && charCode <= 0xDBFF) {
+      const nextCode = value.charCodeAt(index + 1)
+      const isPair = nextCode >= 0xDC00 && nextCode <= 0xDFFF
+      if (isPair && options.nonAscii === 'keep') {
+        result += value.slice(index, index + 2)
+      }
+      else {
+        result += toUnicodeEscape(charCode, uppercaseHex) + (isPair ? toUnicodeEscape(nextCode, uppercaseHex) : '')
+      }
+      index += isPair ? 1 : 0
+    }
+    else if (isSurrogate(charCode) || (charCode >= 0x80 && options.nonAscii === 'escape')) {
+      result += toUnicodeEscape(charCode, uppercaseHex)
+    }
+    else {
+      result += char
+    }
+  }
+  return result
+}
+
+/**
+ * Encode a value as a JSON string literal, including the surrounding quotes
+ * @param value Unescaped value
+ * @param options Escape options
+ * @returns String literal
+ */
+export function encodeJsonString(value: string, options: EscapeOptions = DEFAULT_ESCAPE_OPTIONS): string {
+  return `"${encodeJsonStringContent(value, options)}"`
+}
+
+/**
+ * Split a string literal into pieces that each decode to one code unit
+ * @returns Pieces, or undefined if the literal contains something else than JSON escapes
+ */
+function splitLiteral(literal: string): LiteralUnit[] | undefined {
+  if (literal.length < 2 || !literal.startsWith('"') || !literal.endsWith('"')) {
+    return undefined
+  }
+
+  const units: LiteralUnit[] = []
+  const content = literal.slice(1, -1)
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index]
+    if (char !== '\\') {
+      units.push({ raw: char, value: char })
+      continue
+    }
+
+    const escaped = content[index + 1]
+    if (escaped in DECODED_SHORT_ESCAPES) {
+      units.push({ raw: `\\${escaped}`, value: DECODED_SHORT_ESCAPES[escaped] })
+      index += 1
+    }
+    else if (escaped === 'u' && /^[0-9a-f]{4}$/i.test(content.slice(index + 2, index + 6))) {
+      units.push({ raw: content.slice(index, index + 6), value: String.fromCharCode(Number.parseInt(content.slice(index + 2, index + 6), 16)) })
+      index += 5
+    }
+    else {
+      return undefined
+    }
+  }
+  return units
+}
+
+/**
+ * Map each character of the decoded value of a string literal to where it is written in the literal
+ * Escape sequences make the two differ, e.g. "\n" and "\u00e9" are one character in the value
+ * @param literal String literal including the surrounding quotes
+ * @returns Offset in the literal of each UTF-16 code unit of the value, plus the offset of the closing quote,
+ * or undefined if the literal contains something else than JSON escapes
+ */
+export function getLiteralOffsets(literal: string): number[] | undefined {
+  const units = splitLiteral(literal)
+  if (!units || units.map(unit => unit.value).join('') !== decodeJsonString(literal)) {
+    return undefined
+  }
+
+  const offsets: number[] = []
+  let offset = 1
+  for (const unit of units) {
+    offsets.push(offset)
+    offset += unit.raw.length
+  }
+  offsets.push(offset)
+  return offsets
+}
+
+/**
+ * Find the escape options a string literal was written with
+ * Characters the literal doesn't contain fall back to the defaults: non-ASCII kept, "/" not escaped, lowercase hex
+ * @param literal String literal including the surrounding quotes
+ * @returns Escape options
+ */
+export function detectEscapeOptions(literal: string): EscapeOptions {
+  const units = splitLiteral(literal) ?? []
+  const nonAsciiUnits = units.filter(unit => unit.value.charCodeAt(0) >= 0x80)
+  const slashUnits = units.filter(unit => unit.value === '/')
+  const hexDigits = units.filter(unit => unit.raw.startsWith('\\u')).map(unit => unit.raw.slice(2)).join('')
+
+  return {
+    nonAscii: nonAsciiUnits.length > 0 && nonAsciiUnits.every(unit => unit.raw.startsWith('\\u')) ? 'escape' : 'keep',
+    escapeSlash: slashUnits.length > 0 && slashUnits.every(unit => unit.raw === '\\/'),
+    uppercaseHex: /[A-F]/.test(hexDigits) && !/[a-f]/.test(hexDigits),
+  }
+}
+
+/**
+ * Resolve escape settings against the literal being replaced
+ * @param literal String literal including the surrounding quotes
+ * @param settings Escape settings
+ * @returns Escape options
+ */
+export function resolveEscapeOptions(literal: string, settings: EscapeSettings): EscapeOptions {
+  const detected = detectEscapeOptions(literal)
+  return {
+    nonAscii: settings.nonAscii === 'preserve' ? detected.nonAscii : settings.nonAscii,
+    escapeSlash: settings.forwardSlash === 'preserve' ? detected.escapeSlash : settings.forwardSlash === 'escape',
+    uppercaseHex: detected.uppercaseHex,
+  }
+}
+
+/**
+ * Rewrite a string literal with a new value, keeping the source text of the unchanged start and end
+ * An unchanged value returns the literal itself, so saving without edits never touches the file
+ * @param literal Current string literal including the surrounding quotes
+ * @param newValue New unescaped value
+ * @param options Escape options for the changed part
+ * @returns New string literal
+ */
+export function updateJsonStringLiteral(literal: string, newValue: string, options: EscapeOptions = detectEscapeOptions(literal)): string {
+  const units = splitLiteral(literal)
+  const oldValue = units?.map(unit => unit.value).join('')
+
+  // jsonc-parser decides what the literal means, anything it reads differently is written from scratch
+  if (!units || oldValue === undefined || oldValue !== decodeJsonString(literal)) {
+    return encodeJsonString(newValue, options)
+  }
+
+  const replacement = computeMinimalReplacement(oldValue, newValue)
+  if (!replacement) {
+    return literal
+  }
+
+  // Don't split an unescaped surrogate pair, a half on its own can't be stored in a UTF-8 file
+  let prefixLength = replacement.offset
+  let suffixLength = units.length - replacement.offset - replacement.length
+  if (prefixLength > 0 && isUnescapedSurrogate(units[prefixLength - 1], 0xD800)) {
+    prefixLength--
+  }
+  if (suffixLength > 0 && isUnescapedSurrogate(units[units.length - suffixLength], 0xDC00)) {
+    suffixLength--
+  }
+
+  const prefix = units.slice(0, prefixLength).map(unit => unit.raw).join('')
+  const suffix = units.slice(units.length - suffixLength).map(unit => unit.raw).join('')
+  const content = newValue.slice(prefixLength, newValue.length - suffixLength)
+  return `"${prefix}${encodeJsonStringContent(content, options)}${suffix}"`
+}
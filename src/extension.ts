@@ -1,6 +1,18 @@
+import type { CodeBlockInfo } from './codeDetector'
 import * as os from 'node:os'
 import * as vscode from 'vscode'
+import { CodeStringCodeLensProvider } from './codeLensProvider'
+import { CODE_STRING_SCHEME, CodeStringFileSystemProvider } from './codeStringFileSystem'
+import { CodeStringIndex, findMatchOffset } from './codeStringIndex'
+import { CODE_STRINGS_VIEW_ID, CodeStringsTreeProvider } from './codeStringsTreeProvider'
+import { DiagnosticsMirror } from './diagnosticsMirror'
+import { CodeStringHoverProvider } from './hoverProvider'
+import { keyPathToSegments } from './jsonUtils'
+import { LanguageMemory } from './languageMemory'
 import { logger } from './logger'
+import { SessionStatusBar } from './sessionStatusBar'
+import { loadSessions } from './sessionStore'
+import { getSourceDisplayPath, openSourceDocument } from './sourceDocument'
 import { getTempDirectoryUri } from './tempUtils'
 
 // Lazy-loaded modules to improve activation time
@@ -12,6 +24,13 @@ let shouldProcessFile: typeof import('./fileUtils').shouldProcessFile
 // Lazy-initialized instances
 let detector: InstanceType<typeof CodeDetector> | null = null
 let editorProvider: InstanceType<typeof CodeEditorProvider> | null = null
+let workspaceState: vscode.Memento
+let languageMemory: LanguageMemory
+let codeStringsTreeProvider: CodeStringsTreeProvider | undefined
+let codeStringIndex: CodeStringIndex | undefined
+let diagnosticsMirror: DiagnosticsMirror | undefined
+let sessionStatusBar: SessionStatusBar | undefined
+let codeStringFileSystem: CodeStringFileSystemProvider | undefined
 
 /**
  * Lazily load and initialize CodeDetector
@@ -36,7 +55,16 @@ async function getEditorProvider() {
       const module = await import('./codeEditorProvider')
       CodeEditorProvider = module.CodeEditorProvider
     }
-    editorProvider = new CodeEditorProvider()
+    editorProvider = new CodeEditorProvider(workspaceState)
+    // Show which strings have a temporary editor open
+    editorProvider.onDidChangeSessions(() => codeStringsTreeProvider?.refresh())
+    // Let VS Code reload virtual temporary documents whose JSON string changed
+    editorProvider.onDidChangeVirtualFile(uri => codeStringFileSystem?.notifyChanged(uri))
+    editorProvider.restoreSessions()
+    // Show problems of embedded code on the JSON file, also while its temporary editor is in the background
+    diagnosticsMirror = new DiagnosticsMirror(editorProvider)
+    // Show which string the focused temporary editor belongs to
+    sessionStatusBar = new SessionStatusBar(editorProvider)
   }
   return editorProvider
 }
@@ -63,14 +91,142 @@ async function getShouldProcessFile() {
   return shouldProcessFile
 }
 
+/**
+ * Lazily create the workspace index of code strings, files are only scanned on the first search
+ */
+function getCodeStringIndex(): CodeStringIndex {
+  if (!codeStringIndex) {
+    codeStringIndex = new CodeStringIndex({
+      getDetector,
+      getLanguageSelector,
+      getShouldProcessFile,
+    })
+  }
+  return codeStringIndex
+}
+
+/**
+ * Ask for the language of a string, offering or reusing the language remembered for it
+ * @returns Chosen language, or undefined if the user cancelled
+ */
+async function pickLanguage(document: vscode.TextDocument, codeInfo: CodeBlockInfo): Promise<string | undefined> {
+  // A fragment may hold another language than the rest of its string, so it neither uses nor changes the remembered one
+  const mode = codeInfo.fragment ? 'off' : vscode.workspace.getConfiguration('vscode-json-string-code-editor', document.uri).get<string>('languageMemory', 'recommend')
+  const rememberedLanguage = mode === 'off' ? undefined : languageMemory.get(document.uri, codeInfo.path, codeInfo.fieldName)
+  if (rememberedLanguage && mode === 'reuse') {
+    logger.info(`Reusing remembered language: ${rememberedLanguage}`)
+    return rememberedLanguage
+  }
+
+  const LangSelector = await getLanguageSelector()
+  const selectedLanguage = await LangSelector.showLanguageSelector(codeInfo.fieldName, codeInfo.code, rememberedLanguage)
+  if (selectedLanguage && mode !== 'off') {
+    await languageMemory.remember(document.uri, codeInfo.path, codeInfo.fieldName, selectedLanguage)
+  }
+  return selectedLanguage
+}
+
+/**
+ * Open a detected string in a temporary editor, asking for its language unless it is already known
+ * The selection in the JSON file is selected in the temporary editor
+ */
+async function openDetectedCode(document: vscode.TextDocument, codeInfo: CodeBlockInfo, selection: vscode.Selection): Promise<void> {
+  const currentEditorProvider = await getEditorProvider()
+
+  // Check if editor already exists for this key
+  const hasExisting = currentEditorProvider.hasExistingEditor(document.uri, codeInfo.path, codeInfo.fragment)
+  if (hasExisting) {
+    logger.info('Existing editor found, reusing without language selection')
+    // Directly reuse existing editor, no need for language selection
+    await currentEditorProvider.openCodeEditor(codeInfo, document, selection)
+    return
+  }
+
+  // A language rule already picked the language
+  if (codeInfo.language) {
+    logger.info(`Language rule matched: ${codeInfo.language}`)
+    await currentEditorProvider.openCodeEditor(codeInfo, document, selection)
+    return
+  }
+
+  // Show language selection menu, pass field name and code content for auto-detection
+  const selectedLanguage = await pickLanguage(document, codeInfo)
+  if (!selectedLanguage) {
+    logger.info('User cancelled language selection')
+    return
+  }
+
+  logger.info(`User selected language: ${selectedLanguage}`)
+
+  // Open temporary editor with language information
+  await currentEditorProvider.openCodeEditor({ ...codeInfo, language: selectedLanguage }, document, selection)
+}
+
 export function activate(context: vscode.ExtensionContext) {
   logger.info('JSON String Code Editor extension is being activated')
+  workspaceState = context.workspaceState
+  languageMemory = new LanguageMemory(context.workspaceState)
+
+  // Register CodeLens provider, detection modules are only loaded once a JSON file asks for CodeLenses
+  const codeLensProvider = new CodeStringCodeLensProvider({
+    getDetector,
+    getLanguageSelector,
+    getShouldProcessFile,
+  })
+  const codeLensRegistration = vscode.languages.registerCodeLensProvider(
+    [{ language: 'json' }, { language: 'jsonc' }],
+    codeLensProvider,
+  )
+
+  // Register hover provider previewing escaped strings, sharing the lazy detection modules
+  const hoverRegistration = vscode.languages.registerHoverProvider(
+    [{ language: 'json' }, { language: 'jsonc' }],
+    new CodeStringHoverProvider({
+      getDetector,
+      getLanguageSelector,
+      getShouldProcessFile,
+    }),
+  )
+
+  // Register Explorer view listing the code strings of the active JSON file
+  codeStringsTreeProvider = new CodeStringsTreeProvider(
+    {
+      getDetector,
+      getLanguageSelector,
+      getShouldProcessFile,
+    },
+    (uri, path) => editorProvider?.hasExistingEditor(uri, path) ?? false,
+  )
+  const codeStringsTreeView = vscode.window.createTreeView(CODE_STRINGS_VIEW_ID, {
+    treeDataProvider: codeStringsTreeProvider,
+    showCollapseAll: true,
+  })
 
   // Listen for configuration changes (lightweight, no lazy loading needed)
   const configChangeListener = vscode.workspace.onDidChangeConfiguration((e: vscode.ConfigurationChangeEvent) => {
     if (e.affectsConfiguration('vscode-json-string-code-editor')) {
       logger.onConfigurationChanged()
     }
+    if (e.affectsConfiguration('vscode-json-string-code-editor.codeLens')
+      || e.affectsConfiguration('vscode-json-string-code-editor.include')
+      || e.affectsConfiguration('vscode-json-string-code-editor.exclude')) {
+      codeLensProvider.refresh()
+      codeStringsTreeProvider?.refresh()
+      codeStringIndex?.reset()
+    }
+    if (e.affectsConfiguration('vscode-json-string-code-editor.languageRules')) {
+      codeStringsTreeProvider?.refresh()
+      codeStringIndex?.reset()
+    }
+  })
+
+  // Register virtual file system for temporary editors, it loads the editor provider only when a file is accessed
+  codeStringFileSystem = new CodeStringFileSystemProvider({
+    readCode: async uri => (await getEditorProvider()).readVirtualFile(uri),
+    writeCode: async (uri, code) => (await getEditorProvider()).writeVirtualFile(uri, code),
+  })
+  const fileSystemRegistration = vscode.workspace.registerFileSystemProvider(CODE_STRING_SCHEME, codeStringFileSystem, {
+    isCaseSensitive: true,
   })
 
   // Listen for document save events to sync temporary file changes to original JSON file
@@ -86,6 +242,19 @@ export function activate(context: vscode.ExtensionContext) {
     await provider.saveCodeToOriginal(document)
   })
 
+  // Listen for document changes to live sync temporary editors with their JSON strings
+  // No editor can be open before editorProvider is created, so skip lazy loading here
+  const changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+    editorProvider?.handleDocumentChange(event)
+  })
+
+  // Restore temporary editors left open before a window reload, also when only their tabs are open after startup
+  // The editor provider is only loaded if there are any
+  if (loadSessions(context.workspaceState).length > 0) {
+    logger.info('Restoring temporary editor sessions')
+    void getEditorProvider()
+  }
+
   // Register command: edit code
   const editCodeCommand = vscode.commands.registerCommand(
     'vscode-json-string-code-editor.editCode',
@@ -100,12 +269,8 @@ export function activate(context: vscode.ExtensionContext) {
       const selection = editor.selection
       const position = selection.active
 
-      // Lazy load detector and editorProvider
-      const [currentDetector, currentEditorProvider, LangSelector] = await Promise.all([
-        getDetector(),
-        getEditorProvider(),
-        getLanguageSelector(),
-      ])
+      // Lazy load detector
+      const currentDetector = await getDetector()
 
       // Detect if current position contains code
       const codeInfo = await currentDetector.detectCodeAtPosition(document, position)
@@ -115,41 +280,63 @@ export function activate(context: vscode.ExtensionContext) {
         return
       }
 
-      // Check if editor already exists for this key
-      const hasExisting = currentEditorProvider.hasExistingEditor(document.uri.fsPath, codeInfo.keyPath)
-      if (hasExisting) {
-        logger.info('Existing editor found, reusing without language selection')
-        // Directly reuse existing editor, no need for language selection
-        await currentEditorProvider.openCodeEditor(codeInfo, document)
+      await openDetectedCode(document, codeInfo, selection)
+    },
+  )
+
+  // Register command: edit the selected part of a string
+  const editSelectionCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.editSelection',
+    async () => {
+      const editor = vscode.window.activeTextEditor
+      if (!editor) {
+        logger.error('No active editor found')
         return
       }
 
-      // Show language selection menu, pass field name and code content for auto-detection
-      const selectedLanguage = await LangSelector.showLanguageSelector(codeInfo.fieldName, codeInfo.code)
-      if (!selectedLanguage) {
-        logger.info('User cancelled language selection')
+      const currentDetector = await getDetector()
+      const codeInfo = await currentDetector.detectSelectedFragment(editor.document, editor.selection)
+      if (!codeInfo) {
+        logger.info('No part of a code string selected')
+        vscode.window.showInformationMessage('Select part of a code string to edit it on its own')
         return
       }
 
-      logger.info(`User selected language: ${selectedLanguage}`)
+      await openDetectedCode(editor.document, codeInfo, editor.selection)
+    },
+  )
+
+  // Register command: edit array of strings as lines
+  const editArrayAsLinesCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.editArrayAsLines',
+    async () => {
+      const editor = vscode.window.activeTextEditor
+      if (!editor) {
+        logger.error('No active editor found')
+        return
+      }
 
-      // Create code block info with language information
-      const codeInfoWithLanguage = {
-        ...codeInfo,
-        language: selectedLanguage,
+      const currentDetector = await getDetector()
+      const codeInfo = await currentDetector.detectArrayLinesAtPosition(editor.document, editor.selection.active)
+      if (!codeInfo) {
+        logger.info('No array of single-line strings at current position')
+        vscode.window.showInformationMessage('No array of single-line strings detected at current position')
+        return
       }
 
-      // Open temporary editor
-      await currentEditorProvider.openCodeEditor(codeInfoWithLanguage, document)
+      await openDetectedCode(editor.document, codeInfo, editor.selection)
     },
   )
 
   // Register range edit command
   const editCodeAtRangeCommand = vscode.commands.registerCommand(
     'vscode-json-string-code-editor.editCodeAtRange',
-    async (documentUri: string, blockInfo: any) => {
-      const editor = vscode.window.activeTextEditor
-      if (!editor) {
+    async (documentUri: string, blockInfo: Partial<CodeBlockInfo> & Pick<CodeBlockInfo, 'start' | 'end'>) => {
+      // CodeLenses, hovers and search results pass the document they belong to, fall back to the active editor otherwise
+      const document = documentUri
+        ? await openSourceDocument(vscode.Uri.parse(documentUri))
+        : vscode.window.activeTextEditor?.document
+      if (!document) {
         return
       }
 
@@ -157,15 +344,161 @@ export function activate(context: vscode.ExtensionContext) {
       const processFileCheck = await getShouldProcessFile()
 
       // Check if file should be processed (including file type and include configuration)
-      if (!processFileCheck(editor.document)) {
+      if (!processFileCheck(document)) {
         return
       }
 
-      // Lazy load editorProvider
-      const currentEditorProvider = await getEditorProvider()
+      // Lazy load detector and editorProvider
+      const [currentDetector, currentEditorProvider] = await Promise.all([
+        getDetector(),
+        getEditorProvider(),
+      ])
+
+      // Hover links only pass offsets and arguments lose their Range through JSON, so read the string again
+      const position = document.positionAt(blockInfo.start + 1)
+      const detected = typeof blockInfo.code === 'string'
+        ? null
+        : blockInfo.arrayLines
+          ? await currentDetector.detectArrayLinesAtPosition(document, position)
+          : await currentDetector.detectCodeAtPosition(document, position)
+      if (typeof blockInfo.code !== 'string' && !detected) {
+        logger.info('No code detected at the given range')
+        return
+      }
+
+      // The document may have changed since the link was created, the string read again has its current location
+      const start = detected?.start ?? blockInfo.start
+      const end = detected?.end ?? blockInfo.end
+      const codeInfo: CodeBlockInfo = {
+        code: blockInfo.code ?? detected?.code ?? '',
+        start,
+        end,
+        range: new vscode.Range(document.positionAt(start), document.positionAt(end)),
+        fieldName: detected?.fieldName ?? blockInfo.fieldName ?? '',
+        path: detected?.path ?? blockInfo.path ?? keyPathToSegments(blockInfo.keyPath ?? ''),
+        keyPath: detected?.keyPath ?? blockInfo.keyPath ?? '',
+        language: blockInfo.language,
+        arrayLines: blockInfo.arrayLines ?? detected?.arrayLines,
+      }
 
-      // blockInfo is already in CodeBlockInfo format, use directly
-      await currentEditorProvider.openCodeEditor(blockInfo, editor.document)
+      // Ask for a language unless one was passed or an editor for the string is already open
+      if (!codeInfo.language && !currentEditorProvider.hasExistingEditor(document.uri, codeInfo.path)) {
+        const selectedLanguage = await pickLanguage(document, codeInfo)
+        if (!selectedLanguage) {
+          logger.info('User cancelled language selection')
+          return
+        }
+        codeInfo.language = selectedLanguage
+      }
+
+      await currentEditorProvider.openCodeEditor(codeInfo, document)
+    },
+  )
+
+  // Register temporary editor commands, shown in the editor title bar of temporary editors
+  const revertToOriginalCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.revertToOriginal',
+    async (uri?: vscode.Uri) => (await getEditorProvider()).revertToOriginal(uri),
+  )
+  const applyAndCloseCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.applyAndClose',
+    async (uri?: vscode.Uri) => (await getEditorProvider()).applyAndClose(uri),
+  )
+  const discardAndCloseCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.discardAndClose',
+    async (uri?: vscode.Uri) => (await getEditorProvider()).discardAndClose(uri),
+  )
+  const revealInJsonCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.revealInJson',
+    async (uri?: vscode.Uri) => (await getEditorProvider()).revealInSource(uri),
+  )
+  const goToSourceCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.goToSource',
+    async (uri?: vscode.Uri) => (await getEditorProvider()).goToSource(uri),
+  )
+
+  // Register command: search the unescaped content of code strings in all included files
+  const searchCodeStringsCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.searchCodeStrings',
+    async () => {
+      const editor = vscode.window.activeTextEditor
+      const selectedText = editor && !editor.selection.isEmpty && editor.selection.isSingleLine
+        ? editor.document.getText(editor.selection)
+        : undefined
+      const query = await vscode.window.showInputBox({
+        prompt: 'Search the unescaped content of code strings in all included JSON files',
+        placeHolder: 'e.g. fetchUser',
+        value: selectedText,
+      })
+      if (!query) {
+        return
+      }
+
+      const matches = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'Searching code strings' },
+        () => getCodeStringIndex().search(query),
+      )
+      logger.info(`Found ${matches.length} code strings containing "${query}"`)
+      if (matches.length === 0) {
+        vscode.window.showInformationMessage(`No code strings contain "${query}"`)
+        return
+      }
+
+      const picked = await vscode.window.showQuickPick(
+        matches.map(match => ({
+          label: match.codeBlockInfo.keyPath,
+          description: getSourceDisplayPath(match.uri),
+          detail: match.lineText,
+          match,
+        })),
+        {
+          placeHolder: `${matches.length} code ${matches.length === 1 ? 'string contains' : 'strings contain'} "${query}"`,
+          matchOnDescription: true,
+          matchOnDetail: true,
+        },
+      )
+      if (!picked) {
+        return
+      }
+
+      // Open like a CodeLens does, the command reads the string again in case the file changed since it was indexed
+      const { uri, codeBlockInfo, offset } = picked.match
+      const LangSelector = await getLanguageSelector()
+      const language = codeBlockInfo.language ?? await LangSelector.detectLanguage(codeBlockInfo.fieldName, codeBlockInfo.code)
+      await vscode.commands.executeCommand('vscode-json-string-code-editor.editCodeAtRange', uri.toString(), {
+        start: codeBlockInfo.start,
+        end: codeBlockInfo.end,
+        language,
+      })
+
+      // Highlight the match, the editor may hold unsaved changes so look for it near the indexed offset
+      const tempEditor = editorProvider?.getVisibleEditor(uri, codeBlockInfo.path)
+      if (tempEditor) {
+        const text = tempEditor.document.getText()
+        const nearOffset = findMatchOffset(text, query, offset)
+        const matchOffset = nearOffset !== -1 ? nearOffset : findMatchOffset(text, query)
+        if (matchOffset !== -1) {
+          const range = new vscode.Range(tempEditor.document.positionAt(matchOffset), tempEditor.document.positionAt(matchOffset + query.length))
+          tempEditor.selection = new vscode.Selection(range.start, range.end)
+          tempEditor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport)
+        }
+      }
+    },
+  )
+
+  // Register command: rescan the code strings view
+  const refreshCodeStringsCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.refreshCodeStrings',
+    () => codeStringsTreeProvider?.refresh(),
+  )
+
+  // Register command: forget remembered language choices
+  const clearLanguageMemoryCommand = vscode.commands.registerCommand(
+    'vscode-json-string-code-editor.clearLanguageMemory',
+    async () => {
+      await languageMemory.clear()
+      logger.info('Remembered languages cleared')
+      vscode.window.showInformationMessage('Remembered languages cleared')
     },
   )
 
@@ -231,10 +564,32 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(
     editCodeCommand,
+    editSelectionCommand,
+    editArrayAsLinesCommand,
     editCodeAtRangeCommand,
+    revertToOriginalCommand,
+    applyAndCloseCommand,
+    discardAndCloseCommand,
+    revealInJsonCommand,
+    goToSourceCommand,
+    searchCodeStringsCommand,
+    refreshCodeStringsCommand,
+    clearLanguageMemoryCommand,
     cleanupTempFilesCommand,
+    codeLensRegistration,
+    codeLensProvider,
+    hoverRegistration,
+    codeStringsTreeView,
+    codeStringsTreeProvider,
     configChangeListener,
     saveListener,
+    changeListener,
+    fileSystemRegistration,
+    codeStringFileSystem,
+    { dispose: () => editorProvider?.dispose() },
+    { dispose: () => codeStringIndex?.dispose() },
+    { dispose: () => diagnosticsMirror?.dispose() },
+    { dispose: () => sessionStatusBar?.dispose() },
   )
 }
 
@@ -1,23 +1,34 @@
+import type { DetectionDocument } from './sourceDocument'
 import * as vscode from 'vscode'
+import { isTemporaryEditorUri } from './tempUtils'
 
 /**
  * Get default include patterns, including basic JSON files and package.json
  * @returns Default include pattern array
  */
-function getDefaultIncludePatterns(): string[] {
+export function getDefaultIncludePatterns(): string[] {
   return ['**/*.json', '**/*.jsonc', '**/package.json']
 }
 
+/**
+ * Get default exclude patterns, skipping dependencies and build output
+ * @returns Default exclude pattern array
+ */
+export function getDefaultExcludePatterns(): string[] {
+  return ['**/node_modules/**', '**/dist/**', '**/build/**']
+}
+
 /**
  * Fast pattern matching using VS Code's built-in DocumentSelector
  * This avoids loading globby for simple pattern matches
  */
-function matchPatternWithVSCode(pattern: string, document: vscode.TextDocument, workspaceFolder?: vscode.WorkspaceFolder): boolean {
+function matchPatternWithVSCode(pattern: string, document: DetectionDocument, workspaceFolder?: vscode.WorkspaceFolder): boolean {
   try {
     const documentSelector: vscode.DocumentSelector = workspaceFolder
       ? { pattern: new vscode.RelativePattern(workspaceFolder, pattern) }
       : { pattern }
-    return vscode.languages.match(documentSelector, document) > 0
+    // Matching only reads the URI and language of the document
+    return vscode.languages.match(documentSelector, document as vscode.TextDocument) > 0
   }
   catch (error) {
     console.warn(`Invalid pattern: ${pattern}`, error)
@@ -25,13 +36,23 @@ function matchPatternWithVSCode(pattern: string, document: vscode.TextDocument,
   }
 }
 
+/**
+ * Check if a document matches a glob pattern, relative to its workspace folder if it has one
+ * @param pattern Glob pattern
+ * @param document Document to check
+ * @returns Returns true if the document matches the pattern
+ */
+export function matchesFilePattern(pattern: string, document: DetectionDocument): boolean {
+  return matchPatternWithVSCode(pattern, document, vscode.workspace.getWorkspaceFolder(document.uri))
+}
+
 /**
  * Check if file matches include configuration patterns
  * Uses VS Code's built-in DocumentSelector for optimal performance
  * @param document Document to check
  * @returns Returns true if file matches include patterns, otherwise false
  */
-export function isFileIncluded(document: vscode.TextDocument): boolean {
+export function isFileIncluded(document: DetectionDocument): boolean {
   const config = vscode.workspace.getConfiguration('vscode-json-string-code-editor')
   const defaultPatterns = getDefaultIncludePatterns()
   const includePatterns: string[] = config.get('include', defaultPatterns)
@@ -41,6 +62,11 @@ export function isFileIncluded(document: vscode.TextDocument): boolean {
     return true
   }
 
+  // Untitled buffers have no path to match patterns against
+  if (document.isUntitled) {
+    return true
+  }
+
   // Get workspace folder
   const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)
 
@@ -53,9 +79,9 @@ export function isFileIncluded(document: vscode.TextDocument): boolean {
  * @param document Document to check
  * @returns Returns true if file matches exclude patterns, otherwise false
  */
-export function isFileExcluded(document: vscode.TextDocument): boolean {
+export function isFileExcluded(document: DetectionDocument): boolean {
   const config = vscode.workspace.getConfiguration('vscode-json-string-code-editor')
-  const excludePatterns: string[] = config.get('exclude', ['**/node_modules/**', '**/dist/**', '**/build/**'])
+  const excludePatterns: string[] = config.get('exclude', getDefaultExcludePatterns())
 
   // If no exclude patterns are configured, don't exclude any files
   if (!excludePatterns || excludePatterns.length === 0) {
@@ -72,15 +98,21 @@ export function isFileExcluded(document: vscode.TextDocument): boolean {
 /**
  * Check if file should be processed by the extension
  * Check file type, include configuration, exclude configuration and .gitignore status
+ * Temporary editors of JSON strings are always processed
  * @param document Document to check
  * @returns Returns true if file should be processed, otherwise false
  */
-export function shouldProcessFile(document: vscode.TextDocument): boolean {
+export function shouldProcessFile(document: DetectionDocument): boolean {
   // First check file type
   if (document.languageId !== 'json' && document.languageId !== 'jsonc') {
     return false
   }
 
+  // Temporary editors holding JSON open their strings in nested editors, wherever the temp files live
+  if (isTemporaryEditorUri(document.uri)) {
+    return true
+  }
+
   // Check exclude configuration (if file is excluded, don't process)
   if (isFileExcluded(document)) {
     return false
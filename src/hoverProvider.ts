@@ -0,0 +1,99 @@
+import type { CodeBlockInfo } from './codeDetector'
+import type { DetectionDependencies } from './codeLensProvider'
+import * as vscode from 'vscode'
+
+const DEFAULT_MAX_LENGTH = 5000
+
+/**
+ * Create a Markdown code fence that can't be closed by backticks inside the code
+ * @param code Code to fence
+ * @param language Language identifier used for highlighting
+ * @returns Fenced code block
+ */
+export function createCodeFence(code: string, language: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  return `${fence}${language}\n${code}\n${fence}`
+}
+
+/**
+ * Escape Markdown syntax, so text taken from the JSON file can't add links or commands to a trusted hover
+ * @param text Text to show literally
+ * @returns Escaped Markdown
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>~]/g, '\\$&')
+}
+
+/**
+ * Create a command link for trusted Markdown
+ */
+function createCommandLink(title: string, command: string, args: unknown[]): string {
+  return `[${title}](command:${command}?${encodeURIComponent(JSON.stringify(args))})`
+}
+
+/**
+ * Show escaped string values unescaped and highlighted, with links to open them in a temporary editor
+ * Only strings whose unescaped form differs from the literal (multi-line or escaped) get a hover
+ */
+export class CodeStringHoverProvider implements vscode.HoverProvider {
+  constructor(private dependencies: DetectionDependencies) {}
+
+  async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | null> {
+    const config = vscode.workspace.getConfiguration('vscode-json-string-code-editor', document.uri)
+    if (!config.get<boolean>('hover.enabled', true)) {
+      return null
+    }
+
+    const shouldProcessFile = await this.dependencies.getShouldProcessFile()
+    if (token.isCancellationRequested || !shouldProcessFile(document)) {
+      return null
+    }
+
+    const detector = await this.dependencies.getDetector()
+    const codeInfo = await detector.detectCodeAtPosition(document, position)
+    if (!codeInfo || token.isCancellationRequested) {
+      return null
+    }
+
+    // Nothing to gain from a preview that looks like the literal
+    const literal = document.getText().slice(codeInfo.start + 1, codeInfo.end - 1)
+    if (literal === codeInfo.code) {
+      return null
+    }
+
+    const LanguageSelector = await this.dependencies.getLanguageSelector()
+    const language = codeInfo.language
+      ?? await LanguageSelector.detectLanguage(codeInfo.fieldName, codeInfo.code)
+      ?? 'plaintext'
+    const maxLength = config.get<number>('hover.maxLength', DEFAULT_MAX_LENGTH)
+
+    const markdown = new vscode.MarkdownString()
+    markdown.isTrusted = { enabledCommands: ['vscode-json-string-code-editor.editCodeAtRange'] }
+    markdown.appendMarkdown(`**${escapeMarkdown(codeInfo.fieldName)}** · ${LanguageSelector.getLanguageDisplayName(language)}\n\n`)
+    if (codeInfo.code.length > maxLength) {
+      markdown.appendMarkdown(`${createCodeFence(codeInfo.code.slice(0, maxLength), language)}\n\n`)
+      markdown.appendMarkdown(`_Showing the first ${maxLength} of ${codeInfo.code.length} characters_\n\n`)
+    }
+    else {
+      markdown.appendMarkdown(`${createCodeFence(codeInfo.code, language)}\n\n`)
+    }
+    markdown.appendMarkdown(this.createEditLinks(document, codeInfo, language, LanguageSelector.getLanguageDisplayName(language)))
+
+    return new vscode.Hover(markdown, codeInfo.range)
+  }
+
+  /**
+   * Create links opening the string with the detected language, or after picking one
+   */
+  private createEditLinks(document: vscode.TextDocument, codeInfo: CodeBlockInfo, language: string, displayName: string): string {
+    const command = 'vscode-json-string-code-editor.editCodeAtRange'
+    const documentUri = document.uri.toString()
+    // Only offsets are passed, the command reads the code again so links stay short for huge strings
+    const { code: _code, range: _range, language: _language, ...location } = codeInfo
+    return [
+      createCommandLink(`Edit as ${displayName}`, command, [documentUri, { ...location, language }]),
+      createCommandLink('Edit as…', command, [documentUri, location]),
+    ].join(' · ')
+  }
+}
@@ -0,0 +1,345 @@
+import type { JSONPath, Node, ParseError, ParseOptions } from 'jsonc-parser'
+import type { EscapeSettings } from './escapeUtils'
+import type { OffsetRange } from './textUtils'
+import { findNodeAtLocation, findNodeAtOffset, getNodePath, parseTree, visit } from 'jsonc-parser'
+import { createArrayLinesReplacement, getArrayLines } from './arrayLines'
+import { decodeJsonString, DEFAULT_ESCAPE_SETTINGS, getLiteralOffsets, resolveEscapeOptions, updateJsonStringLiteral } from './escapeUtils'
+import { computeMinimalReplacement, shiftRangeThroughChange } from './textUtils'
+
+/**
+ * A single text replacement expressed in document offsets
+ */
+export interface TextReplacement {
+  offset: number
+  length: number
+  content: string
+}
+
+/**
+ * Location of an edited string value in the current document text
+ */
+export interface StringTarget {
+  node: Node // String node, or array node for arrays of strings edited as lines
+  path: JSONPath
+  keyPath: string // Display form of path
+  value: string // Current value, array elements are joined by line breaks
+  verified: boolean // Whether the node is known to be the edited string, not just something at the same key path
+  ambiguous: boolean // Whether the string was found by a path that other strings share, e.g. through duplicate keys
+}
+
+/**
+ * Part of a string value edited on its own
+ */
+export interface StringFragment {
+  start: number // Offset of the fragment in value
+  end: number
+  value: string // Whole string value the offsets refer to
+}
+
+const PARSE_OPTIONS: ParseOptions = {
+  allowTrailingComma: true,
+  allowEmptyContent: true,
+  disallowComments: false,
+}
+
+/**
+ * Convert key path string into jsonc-parser path segments
+ * e.g. "config.items.[0].name" -> ["config", "items", 0, "name"]
+ * Key paths are ambiguous for keys containing "." or looking like "[0]", only use this for user input and old data
+ * @param keyPath Key path in display form
+ * @returns Path segments
+ */
+export function keyPathToSegments(keyPath: string): JSONPath {
+  return keyPath
+    .split('.')
+    .filter(key => key.length > 0)
+    .map((key) => {
+      const arrayMatch = key.match(/^\[(\d+)\]$/)
+      return arrayMatch ? Number.parseInt(arrayMatch[1], 10) : key
+    })
+}
+
+/**
+ * Convert jsonc-parser path segments into key path string, the readable form shown to users
+ * Keys that would read as something else are quoted
+ * e.g. ["config", "items", 0, "name"] -> "config.items.[0].name", ["a.b", ""] -> '["a.b"].[""]'
+ * @param segments Path segments
+ * @returns Key path
+ */
+export function segmentsToKeyPath(segments: JSONPath): string {
+  return segments.map((segment) => {
+    if (typeof segment === 'number') {
+      return `[${segment}]`
+    }
+    return segment === '' || segment.includes('.') || /^\[.*\]$/.test(segment) ? `[${JSON.stringify(segment)}]` : segment
+  }).join('.')
+}
+
+/**
+ * Convert jsonc-parser path segments into an RFC 6901 JSON Pointer
+ * Unlike key paths, pointers tell keys such as "a.b", "[0]" or "" apart, so they are used to identify strings
+ * e.g. ["config", "a.b", 0, ""] -> "/config/a.b/0/"
+ * @param segments Path segments
+ * @returns JSON Pointer
+ */
+export function toJsonPointer(segments: JSONPath): string {
+  return segments.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+/**
+ * Check whether two paths point at the same location
+ */
+export function isSamePath(a: JSONPath, b: JSONPath): boolean {
+  return a.length === b.length && a.every((segment, index) => segment === b[index])
+}
+
+/**
+ * Parse JSON or JSONC text into an AST, tolerating comments and trailing commas
+ * @param text Document text
+ * @returns Root node, or undefined if nothing could be parsed
+ */
+export function parseJsonTree(text: string): Node | undefined {
+  const parseErrors: ParseError[] = []
+  return parseTree(text, parseErrors, PARSE_OPTIONS)
+}
+
+/**
+ * Check whether a string node is the key of a property rather than a value
+ */
+export function isPropertyKey(node: Node): boolean {
+  return node.parent?.type === 'property' && node.parent.children?.[0] === node
+}
+
+/**
+ * Check whether more than one value has the given path
+ * Happens with duplicate keys, or when a syntax error makes the parser read keys into the wrong object
+ * @param text Document text
+ * @param path Path segments
+ * @returns Returns true if the path doesn't identify a single value
+ */
+export function isAmbiguousPath(text: string, path: JSONPath): boolean {
+  let count = 0
+  const countValue = (pathSupplier: () => JSONPath): void => {
+    if (isSamePath(pathSupplier(), path)) {
+      count++
+    }
+  }
+  visit(text, {
+    onObjectBegin: (_offset, _length, _startLine, _startCharacter, pathSupplier) => {
+      countValue(pathSupplier)
+    },
+    onArrayBegin: (_offset, _length, _startLine, _startCharacter, pathSupplier) => {
+      countValue(pathSupplier)
+    },
+    onLiteralValue: (_value, _offset, _length, _startLine, _startCharacter, pathSupplier) => {
+      countValue(pathSupplier)
+    },
+  }, PARSE_OPTIONS)
+  return count > 1
+}
+
+/**
+ * Get the value of a node as edited in a temporary editor
+ * @param node String node, or array node for arrays of strings edited as lines
+ * @param asLines Whether the node is edited as lines
+ * @returns Value, or undefined if the node can't be edited that way
+ */
+function getEditableValue(node: Node, asLines: boolean): string | undefined {
+  if (asLines) {
+    return getArrayLines(node)?.join('\n')
+  }
+  return node.type === 'string' && !isPropertyKey(node) ? node.value : undefined
+}
+
+/**
+ * Find the string literal node located at the given path
+ * @param text Document text
+ * @param path Path segments of the string value
+ * @returns String node, or undefined if the path does not point to a string
+ */
+export function findStringNode(text: string, path: JSONPath): Node | undefined {
+  const root = parseJsonTree(text)
+  if (!root) {
+    return undefined
+  }
+
+  const node = findNodeAtLocation(root, path)
+  return node?.type === 'string' ? node : undefined
+}
+
+/**
+ * Locate the edited string in the current text
+ * Tracked offsets are tried first, so the string is found even if its path changed or the document has syntax errors;
+ * the path is used as fallback and verified against the last known value
+ * @param text Document text
+ * @param path Last known path of the string
+ * @param expectedValue Last known value of the string
+ * @param offsets Tracked literal offsets, if still valid
+ * @param asLines Whether the target is an array of strings edited as lines
+ * @returns Located string, or undefined if nothing string-like is at the tracked location or key path
+ */
+export function locateStringTarget(text: string, path: JSONPath, expectedValue: string, offsets?: OffsetRange, asLines = false): StringTarget | undefined {
+  const root = parseJsonTree(text)
+  if (!root) {
+    return undefined
+  }
+
+  if (offsets) {
+    let node = findNodeAtOffset(root, offsets.start + 1, true)
+    // The offset after "[" may be inside the first element of an array
+    while (node && node.offset > offsets.start) {
+      node = node.parent
+    }
+    const value = node && getEditableValue(node, asLines)
+    if (node && value !== undefined && node.offset === offsets.start && node.offset + node.length === offsets.end) {
+      const nodePath = getNodePath(node)
+      return { node, path: nodePath, keyPath: segmentsToKeyPath(nodePath), value, verified: true, ambiguous: false }
+    }
+  }
+
+  const node = findNodeAtLocation(root, path)
+  const value = node && getEditableValue(node, asLines)
+  if (!node || value === undefined) {
+    return undefined
+  }
+  return { node, path, keyPath: segmentsToKeyPath(path), value, verified: value === expectedValue, ambiguous: isAmbiguousPath(text, path) }
+}
+
+/**
+ * Map offsets in the value of a string, as edited in a temporary editor, to offsets in the document text
+ * Elements of arrays edited as lines follow each other, the line break between two elements maps to the closing quote of the first
+ * @param text Document text
+ * @param node String node, or array node for arrays of strings edited as lines
+ * @returns Document offset of each UTF-16 code unit of the value, plus the offset of the end of the value
+ */
+export function createValueOffsetMap(text: string, node: Node): number[] {
+  const elements = node.type === 'array' ? node.children ?? [] : [node]
+  return elements.flatMap((element) => {
+    const literal = text.slice(element.offset, element.offset + element.length)
+    // Literals jsonc-parser reads differently are mapped character by character, clamped to the literal
+    const value = decodeJsonString(literal) ?? String(element.value ?? '')
+    const offsets = getLiteralOffsets(literal)
+      ?? Array.from({ length: value.length + 1 }, (_, index) => Math.max(0, Math.min(1 + index, literal.length - 1)))
+    return offsets.map(offset => element.offset + offset)
+  })
+}
+
+/**
+ * Map an offset in the document text to an offset in the value of a string
+ * Offsets inside an escape sequence give the character it is decoded to, offsets before or after the literal clamp to its value
+ * @param offsetMap Offset map of the string, see createValueOffsetMap
+ * @param offset Document offset
+ * @returns Value offset
+ */
+export function toValueOffset(offsetMap: number[], offset: number): number {
+  let low = 0
+  let high = offsetMap.length - 1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (offsetMap[middle] <= offset) {
+      low = middle
+    }
+    else {
+      high = middle - 1
+    }
+  }
+  return low
+}
+
+/**
+ * Map a range of the text of a temporary editor to the string literal in the document
+ * Unsaved edits of the temporary editor are taken into account: ranges in unchanged text keep their exact position,
+ * ranges in edited text cover the part of the literal the edit replaces
+ * @param offsetMap Offset map of the string, see createValueOffsetMap
+ * @param value Value of the string in the document
+ * @param editedText Text of the temporary editor
+ * @param range Range in editedText
+ * @returns Range in the document
+ */
+export function mapEditedRangeToDocument(offsetMap: number[], value: string, editedText: string, range: OffsetRange): OffsetRange {
+  const edit = computeMinimalReplacement(value, editedText)
+  const toValueOffset = (offset: number, isEnd: boolean): number => {
+    if (!edit || offset <= edit.offset) {
+      return offset
+    }
+    if (offset >= edit.offset + edit.content.length) {
+      return offset - edit.content.length + edit.length
+    }
+    return isEnd ? edit.offset + edit.length : edit.offset
+  }
+  const toDocumentOffset = (offset: number): number => offsetMap[Math.max(0, Math.min(offset, offsetMap.length - 1))]
+
+  return {
+    start: toDocumentOffset(toValueOffset(range.start, false)),
+    end: toDocumentOffset(toValueOffset(range.end, true)),
+  }
+}
+
+/**
+ * Move a fragment along with changes of the whole string value
+ * Changes overlapping the fragment are taken into it, so they show up as a change of the fragment
+ * @param fragment Fragment of the last known value
+ * @param value Current value
+ * @returns Fragment of the current value
+ */
+export function alignFragment(fragment: StringFragment, value: string): StringFragment {
+  const change = computeMinimalReplacement(fragment.value, value)
+  if (!change) {
+    return fragment
+  }
+
+  const range = shiftRangeThroughChange(fragment, change) ?? {
+    start: Math.min(fragment.start, change.offset),
+    end: Math.max(fragment.end, change.offset + change.length) + change.content.length - change.length,
+  }
+  return { start: range.start, end: range.end, value }
+}
+
+/**
+ * Put new content in place of a fragment of a string value
+ * @param fragment Fragment of the current value
+ * @param content New content of the fragment
+ * @returns Whole new value
+ */
+export function spliceFragment(fragment: StringFragment, content: string): string {
+  return fragment.value.slice(0, fragment.start) + content + fragment.value.slice(fragment.end)
+}
+
+/**
+ * Create a replacement that rewrites a string literal node with a new value
+ * Unchanged parts of the literal keep their escapes, so an unchanged value gives back the literal as is
+ * @param text Document text
+ * @param node String node in the document
+ * @param newValue New unescaped value
+ * @param escapeSettings How to escape the changed part
+ * @returns Replacement covering the old literal
+ */
+export function replaceStringNode(text: string, node: Node, newValue: string, escapeSettings: EscapeSettings = DEFAULT_ESCAPE_SETTINGS): TextReplacement {
+  const literal = text.slice(node.offset, node.offset + node.length)
+  return {
+    offset: node.offset,
+    length: node.length,
+    content: updateJsonStringLiteral(literal, newValue, resolveEscapeOptions(literal, escapeSettings)),
+  }
+}
+
+/**
+ * Create a replacement that writes a new value to a located target
+ * @param text Document text
+ * @param target Located string, or array of strings edited as lines
+ * @param newValue New unescaped value
+ * @param escapeSettings How to escape the changed part
+ * @returns Replacement covering the changed part of the target
+ */
+export function replaceTargetValue(text: string, target: StringTarget, newValue: string, escapeSettings: EscapeSettings = DEFAULT_ESCAPE_SETTINGS): TextReplacement {
+  return target.node.type === 'array'
+    ? createArrayLinesReplacement(text, target.node, newValue, escapeSettings)
+    : replaceStringNode(text, target.node, newValue, escapeSettings)
+}
+
+/**
+ * Apply a replacement to text
+ */
+export function applyReplacement(text: string, replacement: TextReplacement): string {
+  return text.slice(0, replacement.offset) + replacement.content + text.slice(replacement.offset + replacement.length)
+}
@@ -0,0 +1,78 @@
+import type { JSONPath } from 'jsonc-parser'
+import type * as vscode from 'vscode'
+import { toJsonPointer } from './jsonUtils'
+
+export const LANGUAGE_MEMORY_STATE_KEY = 'vscode-json-string-code-editor.languageMemory'
+
+const MAX_ENTRIES = 500
+
+/**
+ * Remembered language choices as stored in workspace state
+ * Entries are kept in least recently used order
+ */
+interface StoredLanguageMemory {
+  keyPaths: Record<string, string> // Keyed by "<document URI>::<JSON Pointer>"
+  fieldNames: Record<string, string> // Keyed by field name, used when the path has no choice yet
+}
+
+/**
+ * Remembers the language chosen for a string, per source file and path with a fallback to the field name
+ */
+export class LanguageMemory {
+  constructor(private state: vscode.Memento) {}
+
+  /**
+   * Get the remembered language of a string
+   * @param uri Source document URI
+   * @param path Path of the string
+   * @param fieldName Field name of the string
+   * @returns Remembered language, or undefined if none was chosen for the path or field name
+   */
+  get(uri: vscode.Uri, path: JSONPath, fieldName: string): string | undefined {
+    const memory = this.load()
+    return memory.keyPaths[this.getPathKey(uri, path)] ?? memory.fieldNames[fieldName]
+  }
+
+  /**
+   * Remember the language chosen for a string
+   * @param uri Source document URI
+   * @param path Path of the string
+   * @param fieldName Field name of the string
+   * @param language Chosen language
+   */
+  async remember(uri: vscode.Uri, path: JSONPath, fieldName: string, language: string): Promise<void> {
+    const memory = this.load()
+    await this.state.update(LANGUAGE_MEMORY_STATE_KEY, {
+      keyPaths: this.touch(memory.keyPaths, this.getPathKey(uri, path), language),
+      fieldNames: fieldName ? this.touch(memory.fieldNames, fieldName, language) : memory.fieldNames,
+    } satisfies StoredLanguageMemory)
+  }
+
+  /**
+   * Forget all remembered languages
+   */
+  async clear(): Promise<void> {
+    await this.state.update(LANGUAGE_MEMORY_STATE_KEY, undefined)
+  }
+
+  private load(): StoredLanguageMemory {
+    const stored = this.state.get<Partial<StoredLanguageMemory>>(LANGUAGE_MEMORY_STATE_KEY)
+    return {
+      keyPaths: stored?.keyPaths && typeof stored.keyPaths === 'object' ? stored.keyPaths : {},
+      fieldNames: stored?.fieldNames && typeof stored.fieldNames === 'object' ? stored.fieldNames : {},
+    }
+  }
+
+  private getPathKey(uri: vscode.Uri, path: JSONPath): string {
+    return `${uri.toString()}::${toJsonPointer(path)}`
+  }
+
+  /**
+   * Move an entry to the most recently used position, dropping the oldest entries beyond the limit
+   */
+  private touch(entries: Record<string, string>, key: string, language: string): Record<string, string> {
+    const updated = Object.entries(entries).filter(([entryKey]) => entryKey !== key)
+    updated.push([key, language])
+    return Object.fromEntries(updated.slice(-MAX_ENTRIES))
+  }
+}
@@ -0,0 +1,95 @@
+import type { JSONPath } from 'jsonc-parser'
+import type { DetectionDocument } from './sourceDocument'
+import * as vscode from 'vscode'
+import { matchesFilePattern } from './fileUtils'
+
+/**
+ * Configured rule assigning a language to strings at matching key paths
+ */
+export interface LanguageRule {
+  files?: string // Glob pattern of documents the rule applies to, all documents if omitted
+  keyPath: string // Key path pattern, e.g. "nodes.[*].script"
+  language: string
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Match a single key path segment, where "*" matches any characters
+ */
+function matchSegment(pattern: string, segment: string): boolean {
+  if (pattern === '*') {
+    return true
+  }
+  const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`)
+  return regex.test(segment)
+}
+
+function matchSegments(pattern: string[], patternIndex: number, path: string[], pathIndex: number): boolean {
+  if (patternIndex === pattern.length) {
+    return pathIndex === path.length
+  }
+
+  // "**" matches any number of segments, including none
+  if (pattern[patternIndex] === '**') {
+    for (let index = pathIndex; index <= path.length; index++) {
+      if (matchSegments(pattern, patternIndex + 1, path, index)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  return pathIndex < path.length
+    && matchSegment(pattern[patternIndex], path[pathIndex])
+    && matchSegments(pattern, patternIndex + 1, path, pathIndex + 1)
+}
+
+/**
+ * Check whether a path matches a glob-style key path pattern
+ * "*" matches within one segment (so "[*]" matches any array index), "**" matches any number of segments
+ * e.g. "nodes.[*].script" matches "nodes.[3].script", "**.query" matches "a.b.query"
+ * @param pattern Key path pattern
+ * @param path Path segments, or a key path in display form
+ * @returns Returns true if the path matches
+ */
+export function matchKeyPath(pattern: string, path: JSONPath | string): boolean {
+  const patternSegments = pattern.split('.').filter(segment => segment.length > 0)
+  // Segments are compared as a whole, so keys containing "." only match a pattern segment that is a wildcard
+  const pathSegments = typeof path === 'string'
+    ? path.split('.').filter(segment => segment.length > 0)
+    : path.map(segment => typeof segment === 'number' ? `[${segment}]` : segment)
+  return matchSegments(patternSegments, 0, pathSegments, 0)
+}
+
+/**
+ * Find the first rule matching a path
+ * @param rules Rules in priority order
+ * @param path Path of the string
+ * @param matchesFile Check whether the document matches a rule's file pattern
+ * @returns Matching rule, or undefined if none matches
+ */
+export function findLanguageRule(rules: LanguageRule[], path: JSONPath | string, matchesFile: (pattern: string) => boolean): LanguageRule | undefined {
+  return rules.find(rule =>
+    typeof rule?.keyPath === 'string'
+    && typeof rule.language === 'string'
+    && matchKeyPath(rule.keyPath, path)
+    && (!rule.files || matchesFile(rule.files)),
+  )
+}
+
+/**
+ * Create a lookup of languages configured by the languageRules setting for strings of a document
+ * Rules are read once, so the lookup can be used for all strings of a scan
+ * @param document Document containing the strings
+ * @returns Lookup returning the language for a path, or undefined if no rule matches
+ */
+export function createLanguageRuleLookup(document: DetectionDocument): (path: JSONPath) => string | undefined {
+  const rules = vscode.workspace.getConfiguration('vscode-json-string-code-editor', document.uri).get<LanguageRule[]>('languageRules', [])
+  if (!Array.isArray(rules) || rules.length === 0) {
+    return () => undefined
+  }
+  return path => findLanguageRule(rules, path, pattern => matchesFilePattern(pattern, document))?.language
+}
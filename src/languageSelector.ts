@@ -19,23 +19,25 @@ export class LanguageSelector {
    * Includes icons, search and auto-detection recommendation features
    * @param fieldName Field name for language detection
    * @param codeContent Code content for language detection
+   * @param rememberedLanguage Language chosen for this string before, recommended instead of auto-detection
    * @returns Selected language ID, returns undefined if user cancels
    */
-  public static async showLanguageSelector(fieldName?: string, codeContent?: string): Promise<string | undefined> {
+  public static async showLanguageSelector(fieldName?: string, codeContent?: string, rememberedLanguage?: string): Promise<string | undefined> {
     // Get all known languages
     const languages = await vscode.languages.getLanguages()
 
     // Get language information
     const languageInfos = languages.map(id => this.getLanguageInfo(id))
 
-    // Perform automatic language detection
-    let recommendedLanguage: string | undefined
-    if (fieldName || codeContent) {
+    // Perform automatic language detection, unless a language was chosen before
+    let recommendedLanguage = rememberedLanguage
+    if (!recommendedLanguage && (fieldName || codeContent)) {
       recommendedLanguage = await this.detectLanguage(fieldName, codeContent)
     }
 
     // Create quick pick items
-    const quickPickItems = this.createQuickPickItems(languageInfos, recommendedLanguage)
+    const recommendationReason = rememberedLanguage ? 'Last used' : 'Auto-detected recommendation'
+    const quickPickItems = this.createQuickPickItems(languageInfos, recommendedLanguage, recommendationReason)
 
     const selected = await vscode.window.showQuickPick(quickPickItems, {
       placeHolder: 'Select code language',
@@ -62,7 +64,7 @@ export class LanguageSelector {
    * Auto-detect language
    * Use parallel detection for multiple languages, return the first matched language
    */
-  private static async detectLanguage(fieldName?: string, codeContent?: string): Promise<string | undefined> {
+  public static async detectLanguage(fieldName?: string, codeContent?: string): Promise<string | undefined> {
     const detectionPromises: Promise<LanguageDetectionResult | null>[] = []
 
     // Field name based detection
@@ -130,8 +132,18 @@ export class LanguageSelector {
       plaintext: ['text', 'txt', 'plain'],
     }
 
-    for (const [languageId, keywords] of Object.entries(patterns)) {
-      if (keywords.some(keyword => fieldNameLower.includes(keyword))) {
+    // Configured keywords replace the built-in ones of their language and are checked first
+    // Empty keywords are dropped, every field name contains them
+    const overrides = vscode.workspace.getConfiguration('vscode-json-string-code-editor').get<Record<string, string[]>>('fieldNameKeywords', {}) ?? {}
+    const entries = [
+      ...Object.entries(overrides)
+        .filter(([, keywords]) => Array.isArray(keywords))
+        .map(([languageId, keywords]): [string, string[]] => [languageId, keywords.filter(keyword => typeof keyword === 'string' && keyword.trim() !== '')]),
+      ...Object.entries(patterns).filter(([languageId]) => !(languageId in overrides)),
+    ]
+
+    for (const [languageId, keywords] of entries) {
+      if (keywords.some(keyword => fieldNameLower.includes(keyword.toLowerCase()))) {
         return { languageId, confidence: 0.8 }
       }
     }
@@ -149,6 +161,11 @@ export class LanguageSelector {
       return null
     }
 
+    // JSON-encoded payloads would otherwise match the language of the strings inside them, e.g. SQL in {"query": "SELECT ..."}
+    if (this.isJsonObjectOrArray(content)) {
+      return { languageId: 'json', confidence: 0.95 }
+    }
+
     // Content pattern matching
     const patterns: Array<{ regex: RegExp, languageId: string, confidence: number }> = [
       // JavaScript/TypeScript
@@ -219,10 +236,25 @@ export class LanguageSelector {
     return null
   }
 
+  /**
+   * Check whether content is a JSON object or array, so strings in it can be edited in nested editors
+   */
+  private static isJsonObjectOrArray(content: string): boolean {
+    if (!/^[{[]/.test(content)) {
+      return false
+    }
+    try {
+      return typeof JSON.parse(content) === 'object'
+    }
+    catch {
+      return false
+    }
+  }
+
   /**
    * Create quick pick items
    */
-  private static createQuickPickItems(languageInfos: LanguageInfo[], recommendedLanguage?: string): vscode.QuickPickItem[] {
+  private static createQuickPickItems(languageInfos: LanguageInfo[], recommendedLanguage?: string, recommendationReason = 'Auto-detected recommendation'): vscode.QuickPickItem[] {
     const items: vscode.QuickPickItem[] = []
 
     // If there's a recommended language, add the recommendation section
@@ -236,7 +268,7 @@ export class LanguageSelector {
 
         items.push({
           label: `${recommendedInfo.displayName} (${recommendedInfo.id})`,
-          description: `${recommendedInfo.aliases.length > 0 ? recommendedInfo.aliases.join(', ') : ''} - Auto-detected recommendation`,
+          description: `${recommendedInfo.aliases.length > 0 ? recommendedInfo.aliases.join(', ') : ''} - ${recommendationReason}`,
         })
 
         // Add separator
@@ -431,7 +463,7 @@ export class LanguageSelector {
    * Get the friendly display name of a language
    * Convert language ID to a more readable name
    */
-  private static getLanguageDisplayName(languageId: string): string {
+  public static getLanguageDisplayName(languageId: string): string {
     const displayNames: Record<string, string> = {
       javascript: 'JavaScript',
       typescript: 'TypeScript',
@@ -0,0 +1,181 @@
+/**
+ * A change of one side relative to the base, in base line indices
+ */
+interface Hunk {
+  baseStart: number
+  baseEnd: number
+  lines: string[]
+}
+
+export interface MergeResult {
+  text: string
+  conflicts: number
+}
+
+/**
+ * Split text into lines, keeping line terminators
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? []
+}
+
+/**
+ * Compute line hunks that turn base into other using longest common subsequence
+ */
+function diffLines(base: string[], other: string[]): Hunk[] {
+  // Trim common prefix and suffix to keep the LCS table small
+  let prefix = 0
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < base.length - prefix
+    && suffix < other.length - prefix
+    && base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = base.slice(prefix, base.length - suffix)
+  const b = other.slice(prefix, other.length - suffix)
+  const width = b.length + 1
+  const table = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+    }
+  }
+
+  const hunks: Hunk[] = []
+  let current: Hunk | null = null
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null
+      i++
+      j++
+      continue
+    }
+
+    if (!current) {
+      current = { baseStart: prefix + i, baseEnd: prefix + i, lines: [] }
+      hunks.push(current)
+    }
+
+    if (j < b.length && (i >= a.length || table[i * width + j + 1] >= table[(i + 1) * width + j])) {
+      current.lines.push(b[j])
+      j++
+    }
+    else {
+      i++
+      current.baseEnd = prefix + i
+    }
+  }
+
+  return hunks
+}
+
+/**
+ * Apply the hunks of one side to a base region
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const result: string[] = []
+  let position = start
+  for (const hunk of hunks) {
+    result.push(...base.slice(position, hunk.baseStart), ...hunk.lines)
+    position = hunk.baseEnd
+  }
+  result.push(...base.slice(position, end))
+  return result
+}
+
+/**
+ * Join lines and make sure the block ends with a line break, so conflict markers start on their own line
+ */
+function joinBlock(lines: string[]): string {
+  const text = lines.join('')
+  return text.length === 0 || text.endsWith('\n') ? text : `${text}\n`
+}
+
+/**
+ * Three-way merge of two texts derived from a common base
+ * Non-overlapping changes are combined, overlapping different changes are wrapped in conflict markers
+ * @param base Common ancestor text
+ * @param mine Local text
+ * @param theirs Incoming text
+ * @returns Merged text and number of conflicts
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeResult {
+  if (mine === theirs || theirs === base) {
+    return { text: mine, conflicts: 0 }
+  }
+  if (mine === base) {
+    return { text: theirs, conflicts: 0 }
+  }
+
+  const baseLines = splitLines(base)
+  const mineHunks = diffLines(baseLines, splitLines(mine))
+  const theirHunks = diffLines(baseLines, splitLines(theirs))
+
+  const output: string[] = []
+  let conflicts = 0
+  let position = 0
+  let m = 0
+  let t = 0
+
+  while (m < mineHunks.length || t < theirHunks.length) {
+    // Start a group with the earliest hunk, then absorb every touching hunk from both sides
+    const mineFirst = t >= theirHunks.length
+      || (m < mineHunks.length && mineHunks[m].baseStart <= theirHunks[t].baseStart)
+    const first = mineFirst ? mineHunks[m] : theirHunks[t]
+    const groupStart = first.baseStart
+    let groupEnd = first.baseEnd
+    const groupMine: Hunk[] = []
+    const groupTheirs: Hunk[] = []
+
+    let absorbed = true
+    while (absorbed) {
+      absorbed = false
+      if (m < mineHunks.length && mineHunks[m].baseStart <= groupEnd) {
+        groupEnd = Math.max(groupEnd, mineHunks[m].baseEnd)
+        groupMine.push(mineHunks[m++])
+        absorbed = true
+      }
+      if (t < theirHunks.length && theirHunks[t].baseStart <= groupEnd) {
+        groupEnd = Math.max(groupEnd, theirHunks[t].baseEnd)
+        groupTheirs.push(theirHunks[t++])
+        absorbed = true
+      }
+    }
+
+    output.push(...baseLines.slice(position, groupStart))
+
+    const mineBlock = applyHunks(baseLines, groupStart, groupEnd, groupMine)
+    const theirBlock = applyHunks(baseLines, groupStart, groupEnd, groupTheirs)
+    if (groupTheirs.length === 0 || mineBlock.join('') === theirBlock.join('')) {
+      output.push(...mineBlock)
+    }
+    else if (groupMine.length === 0) {
+      output.push(...theirBlock)
+    }
+    else {
+      conflicts++
+      output.push(
+        '<<<<<<< Mine\n',
+        joinBlock(mineBlock),
+        '=======\n',
+        joinBlock(theirBlock),
+        '>>>>>>> Theirs\n',
+      )
+    }
+
+    position = groupEnd
+  }
+
+  output.push(...baseLines.slice(position))
+  return { text: output.join(''), conflicts }
+}
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode'
+
+export const PREVIEW_SCHEME = 'json-string-code-editor-preview'
+
+/**
+ * Read-only in-memory documents used as sides of diff views
+ */
+export class PreviewContentProvider implements vscode.TextDocumentContentProvider {
+  private contents: Map<string, string> = new Map()
+  private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>()
+
+  readonly onDidChange = this.onDidChangeEmitter.event
+
+  /**
+   * Store preview content and get its URI
+   * @param name File name shown in the editor title, its extension selects the language
+   * @param content Document content
+   * @returns URI of the preview document
+   */
+  setContent(name: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/${name}` })
+    this.contents.set(uri.toString(), content)
+    this.onDidChangeEmitter.fire(uri)
+    return uri
+  }
+
+  /**
+   * Remove stored preview content
+   */
+  deleteContent(uri: vscode.Uri): void {
+    this.contents.delete(uri.toString())
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? ''
+  }
+
+  dispose(): void {
+    this.contents.clear()
+    this.onDidChangeEmitter.dispose()
+  }
+}
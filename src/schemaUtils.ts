@@ -0,0 +1,316 @@
+import type { JSONPath, ParseError } from 'jsonc-parser'
+import type { DetectionDocument } from './sourceDocument'
+import { parse } from 'jsonc-parser'
+import * as vscode from 'vscode'
+import { matchesFilePattern } from './fileUtils'
+import { findStringNode } from './jsonUtils'
+import { logger } from './logger'
+
+/**
+ * Subset of JSON Schema used to find the language of string values
+ */
+export interface JSONSchema {
+  '$ref'?: string
+  'type'?: string | string[]
+  'properties'?: Record<string, JSONSchema | boolean>
+  'patternProperties'?: Record<string, JSONSchema | boolean>
+  'additionalProperties'?: JSONSchema | boolean
+  'items'?: JSONSchema | boolean | Array<JSONSchema | boolean>
+  'prefixItems'?: Array<JSONSchema | boolean>
+  'allOf'?: Array<JSONSchema | boolean>
+  'anyOf'?: Array<JSONSchema | boolean>
+  'oneOf'?: Array<JSONSchema | boolean>
+  'contentMediaType'?: string
+  'contentEncoding'?: string
+  'format'?: string
+  'enum'?: unknown[]
+  'const'?: unknown
+  'x-language'?: string
+}
+
+/**
+ * What the schema says about a string value
+ */
+export interface StringSchemaInfo {
+  language?: string // Language from x-language or contentMediaType
+  isCode: boolean // False if the schema describes the value as something else, e.g. a date or base64 data
+}
+
+/**
+ * Entry of the json.schemas setting
+ */
+interface SchemaAssociation {
+  fileMatch?: string[]
+  url?: string
+  schema?: JSONSchema
+}
+
+const MEDIA_TYPE_LANGUAGES: Record<string, string> = {
+  'text/javascript': 'javascript',
+  'application/javascript': 'javascript',
+  'application/x-javascript': 'javascript',
+  'text/typescript': 'typescript',
+  'application/typescript': 'typescript',
+  'application/sql': 'sql',
+  'text/x-sql': 'sql',
+  'text/html': 'html',
+  'text/css': 'css',
+  'text/x-python': 'python',
+  'application/x-python': 'python',
+  'application/x-sh': 'shellscript',
+  'text/x-shellscript': 'shellscript',
+  'text/markdown': 'markdown',
+  'application/json': 'json',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/yaml': 'yaml',
+  'text/yaml': 'yaml',
+  'text/plain': 'plaintext',
+}
+
+const MAX_REF_DEPTH = 32
+
+/**
+ * Get the language identifier for a media type, ignoring parameters such as charset
+ * @param mediaType Media type, e.g. "text/javascript; charset=utf-8"
+ * @returns Language identifier, or undefined if the media type is unknown
+ */
+export function getMediaTypeLanguage(mediaType: string): string | undefined {
+  return MEDIA_TYPE_LANGUAGES[mediaType.split(';')[0].trim().toLowerCase()]
+}
+
+/**
+ * Resolve a local reference such as "#/definitions/script"
+ */
+function resolveRef(root: JSONSchema, ref: string): JSONSchema | boolean | undefined {
+  if (!ref.startsWith('#')) {
+    return undefined
+  }
+
+  let current: unknown = root
+  for (const token of ref.slice(1).split('/').filter(token => token.length > 0)) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+    if (!current || typeof current !== 'object') {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current as JSONSchema | boolean | undefined
+}
+
+/**
+ * Expand references and combinators into the list of schemas that apply to a value
+ */
+function expandSchema(root: JSONSchema, schema: JSONSchema | boolean | undefined, depth = 0): JSONSchema[] {
+  if (!schema || typeof schema !== 'object' || depth > MAX_REF_DEPTH) {
+    return []
+  }
+
+  const schemas = [schema]
+  if (schema.$ref) {
+    schemas.push(...expandSchema(root, resolveRef(root, schema.$ref), depth + 1))
+  }
+  for (const combined of [schema.allOf, schema.anyOf, schema.oneOf]) {
+    for (const subschema of combined ?? []) {
+      schemas.push(...expandSchema(root, subschema, depth + 1))
+    }
+  }
+  return schemas
+}
+
+/**
+ * Get the schemas of a child value
+ */
+function getChildSchemas(root: JSONSchema, schema: JSONSchema, segment: string | number): JSONSchema[] {
+  if (typeof segment === 'number') {
+    const tupleItems = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined)
+    if (tupleItems && segment < tupleItems.length) {
+      return expandSchema(root, tupleItems[segment])
+    }
+    return Array.isArray(schema.items) ? [] : expandSchema(root, schema.items)
+  }
+
+  const property = schema.properties?.[segment]
+  if (property !== undefined) {
+    return expandSchema(root, property)
+  }
+
+  const patternSchemas = Object.entries(schema.patternProperties ?? {})
+    .filter(([pattern]) => {
+      try {
+        return new RegExp(pattern, 'u').test(segment)
+      }
+      catch {
+        return false
+      }
+    })
+    .flatMap(([, subschema]) => expandSchema(root, subschema))
+  if (patternSchemas.length > 0) {
+    return patternSchemas
+  }
+
+  return expandSchema(root, schema.additionalProperties)
+}
+
+/**
+ * Find the schemas describing the value at a path
+ * @param root Root schema
+ * @param path Path segments of the value
+ * @returns Applying schemas, empty if the schema doesn't describe the value
+ */
+export function findSubschemas(root: JSONSchema, path: JSONPath): JSONSchema[] {
+  let schemas = expandSchema(root, root)
+  for (const segment of path) {
+    schemas = schemas.flatMap(schema => getChildSchemas(root, schema, segment))
+    if (schemas.length === 0) {
+      break
+    }
+  }
+  return schemas
+}
+
+/**
+ * Describe a string value using the schemas that apply to it
+ * @param root Root schema
+ * @param path Path segments of the string value
+ * @returns Schema information, or undefined if the schema doesn't describe the value
+ */
+export function getStringSchemaInfo(root: JSONSchema, path: JSONPath): StringSchemaInfo | undefined {
+  const schemas = findSubschemas(root, path)
+  if (schemas.length === 0) {
+    return undefined
+  }
+
+  for (const schema of schemas) {
+    if (typeof schema['x-language'] === 'string') {
+      return { language: schema['x-language'], isCode: true }
+    }
+    const language = schema.contentMediaType ? getMediaTypeLanguage(schema.contentMediaType) : undefined
+    if (language) {
+      return { language, isCode: true }
+    }
+  }
+
+  // Formats, enumerations, encoded data and non-text media types describe values that aren't code
+  const isCode = !schemas.some(schema =>
+    schema.format !== undefined
+    || schema.enum !== undefined
+    || schema.const !== undefined
+    || schema.contentEncoding !== undefined
+    || (schema.contentMediaType !== undefined && !schema.contentMediaType.startsWith('text/')))
+  return { isCode }
+}
+
+/**
+ * Resolve a schema reference to a local URI
+ * Remote schemas are not fetched
+ * @param reference Path or URI of the schema
+ * @param baseUri URI that relative paths are resolved against
+ * @returns Schema URI, or undefined if it can't be loaded locally
+ */
+export function resolveSchemaReference(reference: string, baseUri: vscode.Uri | undefined): vscode.Uri | undefined {
+  if (/^https?:/i.test(reference)) {
+    return undefined
+  }
+  // Schemes have at least two characters, so Windows drive letters fall through to file paths
+  if (/^[a-z][\w+.-]+:/i.test(reference)) {
+    return vscode.Uri.parse(reference)
+  }
+  if (reference.startsWith('/') || /^[a-z]:[\\/]/i.test(reference)) {
+    return vscode.Uri.file(reference)
+  }
+  return baseUri ? vscode.Uri.joinPath(baseUri, reference) : undefined
+}
+
+/**
+ * Convert a json.schemas fileMatch entry into a glob pattern
+ * Patterns without a leading "/" match at any depth, like in the JSON language service
+ */
+function toFileMatchGlob(fileMatch: string): string {
+  return fileMatch.startsWith('/') ? `**${fileMatch}` : `**/${fileMatch}`
+}
+
+/**
+ * Check whether a document matches the fileMatch patterns of a json.schemas entry
+ * Patterns starting with "!" exclude documents
+ */
+function matchesFileMatch(fileMatch: string[], document: DetectionDocument): boolean {
+  const includes = fileMatch.filter(pattern => !pattern.startsWith('!'))
+  const excludes = fileMatch.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1))
+  return includes.some(pattern => matchesFilePattern(toFileMatchGlob(pattern), document))
+    && !excludes.some(pattern => matchesFilePattern(toFileMatchGlob(pattern), document))
+}
+
+/**
+ * Loads schemas of JSON documents from $schema and the json.schemas setting
+ * Loaded schemas are cached until their file changes
+ */
+export class SchemaLoader {
+  private cache: Map<string, { mtime: number, schema: JSONSchema | undefined }> = new Map()
+
+  /**
+   * Get the schema of a document
+   * @param document JSON document
+   * @returns Schema, or undefined if the document has none that can be loaded locally
+   */
+  async getSchema(document: DetectionDocument): Promise<JSONSchema | undefined> {
+    const associations = vscode.workspace.getConfiguration('json', document.uri).get<SchemaAssociation[]>('schemas', [])
+    const settingsBaseUri = (vscode.workspace.getWorkspaceFolder(document.uri) ?? vscode.workspace.workspaceFolders?.[0])?.uri
+
+    // $schema in the document takes precedence over associations by file name
+    const reference = findStringNode(document.getText(), ['$schema'])?.value as string | undefined
+    if (reference) {
+      const inline = associations.find(association => association.url === reference && association.schema)
+      if (inline?.schema) {
+        return inline.schema
+      }
+
+      const documentDirectory = document.isUntitled ? undefined : vscode.Uri.joinPath(document.uri, '..')
+      const schema = await this.loadSchema(resolveSchemaReference(reference, documentDirectory))
+      if (schema) {
+        return schema
+      }
+    }
+
+    for (const association of associations) {
+      if (!Array.isArray(association.fileMatch) || !matchesFileMatch(association.fileMatch, document)) {
+        continue
+      }
+      if (association.schema) {
+        return association.schema
+      }
+      const schema = association.url ? await this.loadSchema(resolveSchemaReference(association.url, settingsBaseUri)) : undefined
+      if (schema) {
+        return schema
+      }
+    }
+
+    return undefined
+  }
+
+  private async loadSchema(uri: vscode.Uri | undefined): Promise<JSONSchema | undefined> {
+    if (!uri) {
+      return undefined
+    }
+
+    const key = uri.toString()
+    try {
+      const { mtime } = await vscode.workspace.fs.stat(uri)
+      const cached = this.cache.get(key)
+      if (cached?.mtime === mtime) {
+        return cached.schema
+      }
+
+      const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))
+      const parseErrors: ParseError[] = []
+      const parsed = parse(content, parseErrors, { allowTrailingComma: true })
+      const schema = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as JSONSchema : undefined
+      this.cache.set(key, { mtime, schema })
+      return schema
+    }
+    catch (error) {
+      logger.warn(`Cannot load schema ${key}: ${error}`)
+      return undefined
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode'
+
+const UPDATE_DELAY = 100
+
+/**
+ * How the content of a temporary editor relates to its JSON string
+ * - synced: same value as the string
+ * - modified: changes not written to the string yet
+ * - syncing: changes waiting for live sync
+ * - detached: the string can't be found in its open original document
+ */
+export type SyncState = 'synced' | 'modified' | 'syncing' | 'detached'
+
+/**
+ * What the status bar shows about a temporary editor
+ */
+export interface SessionStatus {
+  sourceUri: vscode.Uri // JSON file the string is in, reached through the parents of nested editors
+  keyPaths: string[] // Key path of each level, outermost first, fragments are marked
+  language: string
+  syncState: SyncState
+}
+
+/**
+ * Temporary editors shown in the status bar, implemented by the editor provider
+ */
+export interface SessionStatusSource {
+  /**
+   * Fired when temporary editors are opened or closed
+   */
+  onDidChangeSessions: vscode.Event<void>
+  /**
+   * Get the URIs of the open temporary documents
+   */
+  getTempUris: () => vscode.Uri[]
+  /**
+   * Get the status of the temporary editor of a document, undefined if it isn't a temporary document
+   */
+  getSessionStatus: (tempUri: vscode.Uri) => SessionStatus | undefined
+}
+
+const SYNC_STATES: Record<SyncState, { icon: string, label: string }> = {
+  synced: { icon: '$(check)', label: 'Same as the JSON string' },
+  modified: { icon: '$(circle-filled)', label: 'Changes not saved to the JSON string' },
+  syncing: { icon: '$(sync)', label: 'Live syncing changes to the JSON string' },
+  detached: { icon: '$(warning)', label: 'String not found in the JSON file' },
+}
+
+/**
+ * Shows the JSON file, key path, language and sync state of the focused temporary editor
+ * Clicking the item goes to the string in its JSON file
+ */
+export class SessionStatusBar implements vscode.Disposable {
+  private item = vscode.window.createStatusBarItem('vscode-json-string-code-editor.session', vscode.StatusBarAlignment.Left, 100)
+  private shownSourceKey: string | undefined // JSON file of the shown temporary editor
+  private updateTimer: ReturnType<typeof setTimeout> | undefined
+  private disposables: vscode.Disposable[] = []
+
+  constructor(private source: SessionStatusSource) {
+    this.item.name = 'JSON String Code Editor'
+    this.disposables.push(
+      this.item,
+      vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+      // Edits of the temporary document or its JSON file change the sync state
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document.uri)),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('vscode-json-string-code-editor.liveSync')) {
+          this.update()
+        }
+      }),
+      source.onDidChangeSessions(() => this.update()),
+    )
+    this.update()
+  }
+
+  /**
+   * Show the status of the active editor, or hide the item if it isn't a temporary editor
+   */
+  update(): void {
+    clearTimeout(this.updateTimer)
+    this.updateTimer = undefined
+
+    const document = vscode.window.activeTextEditor?.document
+    const status = document && this.source.getSessionStatus(document.uri)
+    this.shownSourceKey = status?.sourceUri.toString()
+    if (!document || !status) {
+      this.item.hide()
+      return
+    }
+
+    const fileName = vscode.workspace.asRelativePath(status.sourceUri)
+    const keyPath = status.keyPaths.join(' › ')
+    const { icon, label } = SYNC_STATES[status.syncState]
+
+    this.item.text = `${icon} ${fileName} › ${keyPath}`
+    this.item.tooltip = [
+      `Editing "${keyPath}" of ${fileName}`,
+      `Language: ${status.language}`,
+      label,
+      'Click to go to the string in the JSON file',
+    ].join('\n')
+    this.item.command = { title: 'Go to Source', command: 'vscode-json-string-code-editor.goToSource', arguments: [document.uri] }
+    this.item.show()
+  }
+
+  dispose(): void {
+    clearTimeout(this.updateTimer)
+    for (const disposable of this.disposables) {
+      disposable.dispose()
+    }
+    this.disposables = []
+  }
+
+  /**
+   * Update once typing pauses, only edits of temporary documents or the JSON file of the shown one change the sync state
+   */
+  private scheduleUpdate(uri: vscode.Uri): void {
+    const key = uri.toString()
+    if (!this.shownSourceKey || (key !== this.shownSourceKey && !this.source.getTempUris().some(tempUri => tempUri.toString() === key))) {
+      return
+    }
+
+    clearTimeout(this.updateTimer)
+    this.updateTimer = setTimeout(() => this.update(), UPDATE_DELAY)
+  }
+}
@@ -0,0 +1,92 @@
+import type { JSONPath } from 'jsonc-parser'
+import type * as vscode from 'vscode'
+import type { StringFragment } from './jsonUtils'
+import { keyPathToSegments } from './jsonUtils'
+
+export const SESSION_STATE_KEY = 'vscode-json-string-code-editor.sessions'
+
+/**
+ * Editor session as stored in workspace state, so it can be restored after a window reload
+ */
+export interface PersistedSession {
+  uniqueKey: string
+  safeFileName: string
+  tempUri: string
+  originalUri: string
+  path?: JSONPath // Missing in sessions stored by older versions, which only had keyPath
+  keyPath: string
+  fieldName: string
+  language?: string
+  arrayLines?: boolean // Whether the session edits an array of strings as lines
+  fragment?: StringFragment // Part of the string the session edits on its own
+  originalCode: string
+  openedCode?: string // Value when the editor was opened, missing in sessions stored by older versions
+  liveSynced?: boolean // Whether live sync wrote to the JSON string since the editor was opened
+  start: number
+  end: number
+}
+
+function isStringFragment(value: unknown): value is StringFragment {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const fragment = value as Record<string, unknown>
+  return typeof fragment.value === 'string'
+    && typeof fragment.start === 'number'
+    && typeof fragment.end === 'number'
+    && fragment.start >= 0
+    && fragment.start <= fragment.end
+    && fragment.end <= fragment.value.length
+}
+
+function isPersistedSession(value: unknown): value is PersistedSession {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const session = value as Record<string, unknown>
+  return typeof session.uniqueKey === 'string'
+    && typeof session.safeFileName === 'string'
+    && typeof session.tempUri === 'string'
+    && typeof session.originalUri === 'string'
+    && (session.path === undefined || (Array.isArray(session.path) && session.path.every(segment => typeof segment === 'string' || typeof segment === 'number')))
+    && typeof session.keyPath === 'string'
+    && typeof session.fieldName === 'string'
+    && (session.language === undefined || typeof session.language === 'string')
+    && (session.arrayLines === undefined || typeof session.arrayLines === 'boolean')
+    && (session.fragment === undefined || isStringFragment(session.fragment))
+    && typeof session.originalCode === 'string'
+    && (session.openedCode === undefined || typeof session.openedCode === 'string')
+    && (session.liveSynced === undefined || typeof session.liveSynced === 'boolean')
+    && typeof session.start === 'number'
+    && typeof session.end === 'number'
+}
+
+/**
+ * Get the path of the string a session edits
+ * @param session Persisted session
+ * @returns Path segments
+ */
+export function getSessionPath(session: PersistedSession): JSONPath {
+  return session.path ?? keyPathToSegments(session.keyPath)
+}
+
+/**
+ * Load persisted sessions, ignoring malformed entries
+ * @param state Workspace state
+ * @returns Valid sessions
+ */
+export function loadSessions(state: vscode.Memento): PersistedSession[] {
+  const sessions = state.get<unknown>(SESSION_STATE_KEY, [])
+  return Array.isArray(sessions) ? sessions.filter(isPersistedSession) : []
+}
+
+/**
+ * Persist sessions, replacing previously stored ones
+ * @param state Workspace state
+ * @param sessions Sessions to store
+ */
+export async function saveSessions(state: vscode.Memento, sessions: PersistedSession[]): Promise<void> {
+  await state.update(SESSION_STATE_KEY, sessions.length > 0 ? sessions : undefined)
+}
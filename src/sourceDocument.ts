@@ -0,0 +1,117 @@
+import * as vscode from 'vscode'
+import { logger } from './logger'
+
+/**
+ * Document as read by code string detection, implemented by open documents and by file snapshots
+ */
+export interface DetectionDocument {
+  readonly uri: vscode.Uri
+  readonly languageId: string
+  readonly isUntitled: boolean
+  getText: () => string
+  offsetAt: (position: vscode.Position) => number
+  positionAt: (offset: number) => vscode.Position
+}
+
+/**
+ * Find an open document by URI
+ * @param uri Document URI
+ * @returns Open document, or undefined if it is not loaded
+ */
+export function findOpenDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+  const key = uri.toString()
+  return vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key)
+}
+
+/**
+ * Get the document of a source JSON file, opening it again if it is no longer loaded
+ * Untitled buffers are not reopened, their content is gone once closed
+ * @param uri Document URI, of any scheme
+ * @returns Document, or undefined if it cannot be opened
+ */
+export async function openSourceDocument(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+  const document = findOpenDocument(uri)
+  if (document) {
+    return document
+  }
+
+  if (uri.scheme === 'untitled') {
+    return undefined
+  }
+
+  try {
+    return await vscode.workspace.openTextDocument(uri)
+  }
+  catch (error) {
+    logger.warn(`Cannot open source document ${uri.toString()}: ${error}`)
+    return undefined
+  }
+}
+
+/**
+ * Get a readable path for a source document, used in file names and messages
+ * Documents in the workspace are relative to it (prefixed with the folder name in multi-root workspaces),
+ * others keep their scheme and authority so they can't collide with workspace files
+ * e.g. "config/flow.json", "untitled/Untitled-1", "file/home/user/flow.json"
+ * @param uri Document URI
+ * @returns Path without leading slash
+ */
+export function getSourceDisplayPath(uri: vscode.Uri): string {
+  const segments = vscode.workspace.getWorkspaceFolder(uri)
+    ? [vscode.workspace.asRelativePath(uri)]
+    : [uri.scheme, uri.authority, uri.path]
+
+  return segments
+    .join('/')
+    .replace(/\\/g, '/')
+    .replace(/\/{2,}/g, '/')
+    .replace(/^\/+/, '')
+}
+
+/**
+ * Create a read-only document for the content of a file without loading it in VS Code
+ * Opening many files as documents would make other extensions, such as the JSON language server, process them
+ * @param uri File URI
+ * @param text File content
+ * @returns Document snapshot
+ */
+export function createDocumentSnapshot(uri: vscode.Uri, text: string): DetectionDocument {
+  const lineStarts = [0]
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (char === '\n' || (char === '\r' && text[index + 1] !== '\n')) {
+      lineStarts.push(index + 1)
+    }
+  }
+
+  const positionAt = (offset: number): vscode.Position => {
+    const clamped = Math.max(0, Math.min(offset, text.length))
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if (lineStarts[middle] <= clamped) {
+        low = middle
+      }
+      else {
+        high = middle - 1
+      }
+    }
+    return new vscode.Position(low, clamped - lineStarts[low])
+  }
+
+  const offsetAt = (position: vscode.Position): number => {
+    const line = Math.max(0, Math.min(position.line, lineStarts.length - 1))
+    const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] : text.length
+    return Math.min(lineStarts[line] + Math.max(0, position.character), lineEnd)
+  }
+
+  return {
+    uri,
+    languageId: uri.path.toLowerCase().endsWith('.jsonc') ? 'jsonc' : 'json',
+    isUntitled: false,
+    getText: () => text,
+    offsetAt,
+    positionAt,
+  }
+}
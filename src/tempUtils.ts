@@ -1,6 +1,7 @@
 import * as os from 'node:os'
 import * as path from 'node:path'
 import * as vscode from 'vscode'
+import { CODE_STRING_SCHEME } from './codeStringFileSystem'
 
 /**
  * Get extension-specific temporary directory path
@@ -25,3 +26,16 @@ export async function ensureTempDirectoryExists(): Promise<void> {
     await vscode.workspace.fs.createDirectory(tmpDirUri)
   }
 }
+
+/**
+ * Check whether a document is the temporary editor of a JSON string, as a temporary or virtual file
+ * @param uri Document URI
+ * @returns Returns true if the URI belongs to a temporary editor
+ */
+export function isTemporaryEditorUri(uri: vscode.Uri): boolean {
+  if (uri.scheme === CODE_STRING_SCHEME) {
+    return true
+  }
+  const tmpDirPath = getTempDirectoryUri().fsPath
+  return uri.scheme === 'file' && uri.fsPath.startsWith(`${tmpDirPath}${path.sep}`)
+}
@@ -0,0 +1,78 @@
+import type { TextReplacement } from './jsonUtils'
+
+/**
+ * Start and end offsets of a text range
+ */
+export interface OffsetRange {
+  start: number
+  end: number
+}
+
+function isHighSurrogate(charCode: number): boolean {
+  return charCode >= 0xD800 && charCode <= 0xDBFF
+}
+
+/**
+ * Compute the smallest single replacement that turns oldText into newText
+ * Only the differing middle part is replaced, so cursors and selections outside it stay in place
+ * @param oldText Current text
+ * @param newText Desired text
+ * @returns Replacement in oldText offsets, or null if texts are identical
+ */
+export function computeMinimalReplacement(oldText: string, newText: string): TextReplacement | null {
+  if (oldText === newText) {
+    return null
+  }
+
+  const maxPrefix = Math.min(oldText.length, newText.length)
+  let prefix = 0
+  while (prefix < maxPrefix && oldText.charCodeAt(prefix) === newText.charCodeAt(prefix)) {
+    prefix++
+  }
+  // Never split a surrogate pair
+  if (prefix > 0 && isHighSurrogate(oldText.charCodeAt(prefix - 1))) {
+    prefix--
+  }
+
+  const maxSuffix = maxPrefix - prefix
+  let suffix = 0
+  while (
+    suffix < maxSuffix
+    && oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)
+  ) {
+    suffix++
+  }
+  if (suffix > 0 && isHighSurrogate(oldText.charCodeAt(oldText.length - 1 - suffix))) {
+    suffix--
+  }
+
+  return {
+    offset: prefix,
+    length: oldText.length - prefix - suffix,
+    content: newText.slice(prefix, newText.length - suffix),
+  }
+}
+
+/**
+ * Move a tracked range through a text change
+ * Changes before the range shift it, changes within it resize it, also when they start or end on its boundaries,
+ * e.g. a whole string literal replaced by undo or by pasting over it
+ * @param range Range before the change
+ * @param change Change in offsets before the change
+ * @returns Range after the change, or null if the change crosses the range boundaries
+ */
+export function shiftRangeThroughChange(range: OffsetRange, change: TextReplacement): OffsetRange | null {
+  const changeEnd = change.offset + change.length
+  const delta = change.content.length - change.length
+
+  if (changeEnd <= range.start) {
+    return { start: range.start + delta, end: range.end + delta }
+  }
+  if (change.offset >= range.end) {
+    return range
+  }
+  if (change.offset >= range.start && changeEnd <= range.end) {
+    return { start: range.start, end: range.end + delta }
+  }
+  return null
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { createArrayLinesReplacement, getArrayLines, splitArrayLines } from '../src/arrayLines'
+import { applyReplacement, parseJsonTree } from '../src/jsonUtils'
+
+/**
+ * Write edited lines into the first array of a document
+ */
+function writeLines(text: string, newValue: string): string {
+  const node = parseJsonTree(text)?.children?.[0]?.children?.[1]
+  if (!node) {
+    throw new Error('No array in document')
+  }
+  return applyReplacement(text, createArrayLinesReplacement(text, node, newValue))
+}
+
+describe('arrayLines', () => {
+  describe('getArrayLines', () => {
+    it('should return the values of arrays of single-line strings', () => {
+      const node = parseJsonTree('{ "script": ["a", "b\\u0041"] }')?.children?.[0]?.children?.[1]
+
+      expect(getArrayLines(node!)).toEqual(['a', 'bA'])
+    })
+
+    it('should reject empty arrays, other values and strings with line breaks', () => {
+      for (const value of ['[]', '["a", 1]', '["a", ["b"]]', '["a\\nb"]', '"a"']) {
+        const node = parseJsonTree(`{ "script": ${value} }`)?.children?.[0]?.children?.[1]
+        expect(getArrayLines(node!), value).toBeUndefined()
+      }
+    })
+  })
+
+  describe('splitArrayLines', () => {
+    it('should end elements at any kind of line ending', () => {
+      expect(splitArrayLines('a\r\nb\rc\nd')).toEqual(['a', 'b', 'c', 'd'])
+      expect(splitArrayLines('')).toEqual([''])
+    })
+
+    it('should not add an element for a final line break', () => {
+      expect(splitArrayLines('a\nb\n')).toEqual(['a', 'b'])
+      expect(splitArrayLines('a\r\n')).toEqual(['a'])
+      expect(splitArrayLines('a\n\n')).toEqual(['a', ''])
+      expect(splitArrayLines('\n')).toEqual([''])
+    })
+  })
+
+  describe('createArrayLinesReplacement', () => {
+    const text = '{\n  "script": [\n    "const a = \\"\\u00e9\\"",\n    // keep\n    "return a",\n    "done()"\n  ]\n}'
+
+    it('should leave the document untouched when nothing changed', () => {
+      expect(writeLines(text, 'const a = "é"\nreturn a\ndone()')).toBe(text)
+    })
+
+    it('should only rewrite the changed part of changed lines', () => {
+      expect(writeLines(text, 'const a = "éé"\nreturn a\ndone()')).toBe(text.replace('\\u00e9', '\\u00e9\\u00e9'))
+    })
+
+    it('should keep separators and comments between replaced elements', () => {
+      expect(writeLines(text, 'const a = "é"\nreturn b\ndone(1)')).toBe(text.replace('"return a"', '"return b"').replace('"done()"', '"done(1)"'))
+    })
+
+    it('should not append an empty element for a final line break', () => {
+      expect(writeLines(text, 'const a = "é"\nreturn a\ndone()\n')).toBe(text)
+      expect(writeLines(text, 'const a = "é"\nreturn a\ndone()\n\n')).toBe(text.replace('"done()"', '"done()",\n    ""'))
+    })
+
+    it('should insert lines with the indentation of the array', () => {
+      expect(writeLines(text, 'const a = "é"\nreturn a\ndone()\nnext()')).toBe(text.replace('"done()"', '"done()",\n    "next()"'))
+      expect(writeLines(text, 'start()\nconst a = "é"\nreturn a\ndone()')).toBe(text.replace('"const', '"start()",\n    "const'))
+    })
+
+    it('should remove lines together with their separators', () => {
+      expect(writeLines(text, 'const a = "é"\nreturn a')).toBe(text.replace(',\n    "done()"', ''))
+      expect(writeLines(text, 'return a\ndone()')).toBe(text.replace('"const a = \\"\\u00e9\\"",\n    // keep\n    ', ''))
+    })
+
+    it('should follow inline arrays and keep trailing commas', () => {
+      expect(writeLines('{ "script": ["a"] }', 'a\nb')).toBe('{ "script": ["a", "b"] }')
+      expect(writeLines('{ "script": ["a",\n  "b",\n] }', 'a\nb\nc')).toBe('{ "script": ["a",\n  "b",\n  "c",\n] }')
+    })
+
+    it('should put a single element on its own line below it', () => {
+      expect(writeLines('{\n  "script": [\n    "a"\n  ]\n}', 'a\nb')).toBe('{\n  "script": [\n    "a",\n    "b"\n  ]\n}')
+    })
+
+    it('should keep CRLF line endings of the document', () => {
+      expect(writeLines('{\r\n  "script": [\r\n    "a",\r\n    "b"\r\n  ]\r\n}', 'a\r\nb\r\nc')).toBe('{\r\n  "script": [\r\n    "a",\r\n    "b",\r\n    "c"\r\n  ]\r\n}')
+    })
+
+    it('should write an emptied block as one empty line', () => {
+      expect(writeLines('{ "script": ["a", "b"] }', '')).toBe('{ "script": [""] }')
+    })
+  })
+})
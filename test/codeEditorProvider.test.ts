@@ -0,0 +1,380 @@
+import type { JSONPath } from 'jsonc-parser'
+import type * as vscode from 'vscode'
+import type { CodeBlockInfo } from '../src/codeDetector'
+import type { Mock } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { commands, Position, Range, Uri, window, workspace } from 'vscode'
+import { CodeEditorProvider } from '../src/codeEditorProvider'
+import { locateStringTarget } from '../src/jsonUtils'
+
+/**
+ * Editable document, the mock's documents can't change after creation
+ */
+class FakeDocument {
+  version = 1
+  isClosed = false
+  isDirty = false
+  save = vi.fn(async () => true)
+
+  constructor(readonly uri: Uri, private text: string, readonly languageId = 'json') {}
+
+  getText(range?: Range): string {
+    return range ? this.text.slice(this.offsetAt(range.start), this.offsetAt(range.end)) : this.text
+  }
+
+  offsetAt(position: Position): number {
+    const lines = this.text.split('\n')
+    return lines.slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) + position.character
+  }
+
+  positionAt(offset: number): Position {
+    const lines = this.text.slice(0, offset).split('\n')
+    return new Position(lines.length - 1, lines[lines.length - 1].length)
+  }
+
+  setText(text: string): void {
+    this.text = text
+    this.version++
+  }
+}
+
+function createMemento(): vscode.Memento {
+  const values = new Map<string, unknown>()
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+    update: async (key: string, value: unknown) => {
+      values.set(key, value)
+    },
+  } as vscode.Memento
+}
+
+describe('codeEditorProvider', () => {
+  const disposable = { dispose: () => {} }
+  let config: Record<string, unknown>
+  let documents: FakeDocument[]
+  let tempFiles: Map<string, string>
+  let undoStack: Array<() => void> // Inverse of each edit applied through applyEdit
+  let jsonDocument: FakeDocument
+  let provider: CodeEditorProvider
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    config = {}
+    documents = []
+    tempFiles = new Map()
+    undoStack = []
+
+    vi.spyOn(workspace, 'getConfiguration').mockReturnValue({ get: (key: string, defaultValue?: unknown) => config[key] ?? defaultValue } as vscode.WorkspaceConfiguration)
+    vi.spyOn(workspace, 'textDocuments', 'get').mockImplementation(() => documents as unknown as vscode.TextDocument[])
+    vi.spyOn(workspace, 'openTextDocument').mockImplementation((async (uri: Uri) => {
+      const open = documents.find(document => document.uri.toString() === uri.toString())
+      if (open) {
+        return open
+      }
+      const document = new FakeDocument(uri, tempFiles.get(uri.toString()) ?? await provider.readVirtualFile(uri) ?? '', 'javascript')
+      documents.push(document)
+      return document
+    }) as typeof workspace.openTextDocument)
+    vi.spyOn(workspace.fs, 'stat').mockResolvedValue({} as vscode.FileStat)
+    vi.spyOn(workspace.fs, 'createDirectory').mockResolvedValue()
+    vi.spyOn(workspace.fs, 'writeFile').mockImplementation(async (uri, content) => {
+      tempFiles.set(uri.toString(), new TextDecoder().decode(content))
+    })
+    // Edits are applied and reported like VS Code does, before applyEdit resolves
+    vi.spyOn(workspace, 'applyEdit').mockImplementation(async (edit) => {
+      for (const [uri, textEdits] of edit.entries()) {
+        const document = documents.find(doc => doc.uri.toString() === uri.toString())!
+        for (const textEdit of textEdits) {
+          const start = document.offsetAt(textEdit.range.start)
+          const end = document.offsetAt(textEdit.range.end)
+          const oldText = document.getText().slice(start, end)
+          editDocument(document, start, end, textEdit.newText)
+          undoStack.push(() => editDocument(document, start, start + textEdit.newText.length, oldText))
+        }
+      }
+      return true
+    })
+    vi.spyOn(workspace, 'registerTextDocumentContentProvider').mockReturnValue(disposable)
+    vi.spyOn(workspace, 'onDidOpenTextDocument').mockReturnValue(disposable)
+    vi.spyOn(workspace, 'onDidCloseTextDocument').mockReturnValue(disposable)
+    vi.spyOn(window, 'onDidChangeActiveTextEditor').mockReturnValue(disposable)
+    vi.spyOn(window, 'createTextEditorDecorationType').mockReturnValue(disposable as vscode.TextEditorDecorationType)
+    vi.spyOn(window, 'showTextDocument').mockImplementation((async (document: vscode.TextDocument) => ({ document, selection: undefined, revealRange: vi.fn() })) as unknown as typeof window.showTextDocument)
+    vi.spyOn(commands, 'executeCommand').mockResolvedValue(undefined)
+
+    jsonDocument = new FakeDocument(Uri.file('/workspace/flow.json'), '{\n  "script": "let a = 1"\n}')
+    documents.push(jsonDocument)
+    provider = new CodeEditorProvider(createMemento())
+  })
+
+  afterEach(() => {
+    provider.dispose()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  /**
+   * Replace a range of a document and report the change to the provider, as the extension's change listener does
+   */
+  function editDocument(document: FakeDocument, start: number, end: number, text: string): void {
+    const before = document.getText()
+    const range = new Range(document.positionAt(start), document.positionAt(end))
+    document.setText(before.slice(0, start) + text + before.slice(end))
+    provider.handleDocumentChange({
+      document: document as unknown as vscode.TextDocument,
+      contentChanges: [{ range, rangeOffset: start, rangeLength: end - start, text }],
+      reason: undefined,
+    })
+  }
+
+  /**
+   * Replace the first occurrence of a text in a document
+   */
+  function type(document: FakeDocument, search: string, text: string): void {
+    const start = document.getText().indexOf(search)
+    editDocument(document, start, start + search.length, text)
+  }
+
+  function detect(path: JSONPath): CodeBlockInfo {
+    const target = locateStringTarget(jsonDocument.getText(), path, '')!
+    return {
+      code: target.value,
+      start: target.node.offset,
+      end: target.node.offset + target.node.length,
+      range: new Range(0, 0, 0, 0),
+      fieldName: String(path[path.length - 1]),
+      path,
+      keyPath: target.keyPath,
+      language: 'javascript',
+    }
+  }
+
+  async function openEditor(path: JSONPath = ['script']): Promise<FakeDocument> {
+    await provider.openCodeEditor(detect(path), jsonDocument as unknown as vscode.TextDocument)
+    return documents[documents.length - 1]
+  }
+
+  describe('live sync', () => {
+    beforeEach(() => {
+      config.liveSync = true
+    })
+
+    it('should sync edits of the temporary document into the JSON string after the delay', async () => {
+      const tempDocument = await openEditor()
+
+      type(tempDocument, '1', '2')
+      await vi.advanceTimersByTimeAsync(300)
+
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 2"\n}')
+    })
+
+    it('should keep typing in the JSON file while its changes are reflected into the temporary document', async () => {
+      const tempDocument = await openEditor()
+
+      type(jsonDocument, '= 1', '= 12')
+      await vi.advanceTimersByTimeAsync(0)
+      type(jsonDocument, '= 12', '= 123')
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(tempDocument.getText()).toBe('let a = 123')
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 123"\n}')
+    })
+
+    it('should keep syncing after the write-back is undone in the JSON file', async () => {
+      const tempDocument = await openEditor()
+      type(tempDocument, '1', '2')
+      await vi.advanceTimersByTimeAsync(300)
+
+      undoStack.pop()!()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 1"\n}')
+      expect(tempDocument.getText()).toBe('let a = 1')
+
+      type(tempDocument, '1', '3')
+      await vi.advanceTimersByTimeAsync(300)
+
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 3"\n}')
+    })
+
+    it('should report opened sessions but not synced values', async () => {
+      const listener = vi.fn()
+      provider.onDidChangeSessions(listener)
+      const tempDocument = await openEditor()
+
+      type(tempDocument, '1', '2')
+      await vi.advanceTimersByTimeAsync(300)
+      type(jsonDocument, '= 2', '= 3')
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 3"\n}')
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('should revert to the value from when the editor was opened and sync it', async () => {
+      const tempDocument = await openEditor()
+      type(tempDocument, '1', '2')
+      await vi.advanceTimersByTimeAsync(300)
+
+      await provider.revertToOriginal(tempDocument.uri)
+      await vi.advanceTimersByTimeAsync(300)
+
+      expect(tempDocument.getText()).toBe('let a = 1')
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 1"\n}')
+    })
+
+    it('should write the value from when the editor was opened back on discard', async () => {
+      const tempDocument = await openEditor()
+      type(tempDocument, '1', '2')
+      await vi.advanceTimersByTimeAsync(300)
+
+      await provider.discardAndClose(tempDocument.uri)
+
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 1"\n}')
+      expect(commands.executeCommand).toHaveBeenCalledWith('workbench.action.revertAndCloseActiveEditor')
+    })
+  })
+
+  describe('save conflicts', () => {
+    let warning: Mock
+
+    beforeEach(() => {
+      jsonDocument.setText('{\n  "script": "let a = 1\\nlet b = 2\\nlet c = 3"\n}')
+      warning = vi.spyOn(window, 'showWarningMessage').mockResolvedValue(undefined) as Mock
+    })
+
+    /**
+     * Change the first line in the temporary editor and the last line in the JSON file
+     */
+    async function editBothSides(): Promise<FakeDocument> {
+      const tempDocument = await openEditor()
+      type(tempDocument, 'a = 1', 'a = 10')
+      type(jsonDocument, 'c = 3', 'c = 30')
+      return tempDocument
+    }
+
+    it('should save without asking when the JSON file changed outside the string', async () => {
+      const tempDocument = await openEditor()
+      type(tempDocument, 'a = 1', 'a = 10')
+      type(jsonDocument, '"script"', '"name": "flow",\n  "script"')
+
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(warning).not.toHaveBeenCalled()
+      expect(jsonDocument.getText()).toBe('{\n  "name": "flow",\n  "script": "let a = 10\\nlet b = 2\\nlet c = 3"\n}')
+    })
+
+    it('should save without asking when the string was changed back to the value the editor opened with', async () => {
+      const tempDocument = await openEditor()
+      type(tempDocument, 'a = 1', 'a = 10')
+      type(jsonDocument, 'c = 3', 'c = 30')
+      type(jsonDocument, 'c = 30', 'c = 3')
+
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(warning).not.toHaveBeenCalled()
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 10\\nlet b = 2\\nlet c = 3"\n}')
+    })
+
+    it('should not write when the conflict prompt is dismissed', async () => {
+      const tempDocument = await editBothSides()
+
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(warning).toHaveBeenCalledWith(expect.stringContaining('"script" was changed in the original file'), expect.objectContaining({ modal: true }), 'Keep Mine', 'Take Theirs', 'Open Merge View')
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 1\\nlet b = 2\\nlet c = 30"\n}')
+    })
+
+    it('should ask about a string whose whole line was rewritten outside the editor', async () => {
+      warning.mockResolvedValue('Open Merge View')
+      const tempDocument = await openEditor()
+      type(tempDocument, 'a = 1', 'a = 10')
+      // e.g. a reload after pulling, which replaces the line instead of editing inside the literal
+      type(jsonDocument, '  "script": "let a = 1\\nlet b = 2\\nlet c = 3"', '  "script": "let a = 1\\nlet b = 2\\nlet c = 30"')
+
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(warning).toHaveBeenCalledWith(expect.stringContaining('"script" was changed in the original file'), expect.anything(), 'Keep Mine', 'Take Theirs', 'Open Merge View')
+      expect(tempDocument.getText()).toBe('let a = 10\nlet b = 2\nlet c = 30')
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 1\\nlet b = 2\\nlet c = 30"\n}')
+    })
+
+    it('should overwrite the changed string with Keep Mine', async () => {
+      warning.mockResolvedValue('Keep Mine')
+      const tempDocument = await editBothSides()
+
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 10\\nlet b = 2\\nlet c = 3"\n}')
+    })
+
+    it('should load the changed string into the editor with Take Theirs', async () => {
+      warning.mockResolvedValue('Take Theirs')
+      const tempDocument = await editBothSides()
+
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(tempDocument.getText()).toBe('let a = 1\nlet b = 2\nlet c = 30')
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 1\\nlet b = 2\\nlet c = 30"\n}')
+
+      // The taken value is the new base, so the next save doesn't ask again
+      warning.mockClear()
+      type(tempDocument, 'a = 1', 'a = 5')
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(warning).not.toHaveBeenCalled()
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 5\\nlet b = 2\\nlet c = 30"\n}')
+    })
+
+    it('should merge both versions into the editor with Open Merge View', async () => {
+      warning.mockResolvedValue('Open Merge View')
+      const tempDocument = await editBothSides()
+
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(tempDocument.getText()).toBe('let a = 10\nlet b = 2\nlet c = 30')
+      expect(commands.executeCommand).toHaveBeenCalledWith('vscode.diff', expect.anything(), tempDocument.uri, 'script: Theirs ↔ Merged')
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 1\\nlet b = 2\\nlet c = 30"\n}')
+
+      // Saving the merged result applies it without another conflict
+      warning.mockClear()
+      await provider.saveCodeToOriginal(tempDocument as unknown as vscode.TextDocument)
+
+      expect(warning).not.toHaveBeenCalled()
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 10\\nlet b = 2\\nlet c = 30"\n}')
+    })
+  })
+
+  describe('virtual file system', () => {
+    beforeEach(() => {
+      config.virtualFileSystem = true
+    })
+
+    it('should still detect changes of the JSON string on save after the file was read', async () => {
+      const warning = vi.spyOn(window, 'showWarningMessage').mockResolvedValue(undefined)
+      const tempDocument = await openEditor()
+      type(tempDocument, '1', '2')
+      tempDocument.isDirty = true
+
+      type(jsonDocument, '= 1', '= 3')
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(await provider.readVirtualFile(tempDocument.uri)).toBe('let a = 3')
+      expect(await provider.writeVirtualFile(tempDocument.uri, 'let a = 2')).toBe(false)
+      expect(warning).toHaveBeenCalled()
+      expect(jsonDocument.getText()).toBe('{\n  "script": "let a = 3"\n}')
+    })
+
+    it('should report changes of the JSON string so unchanged documents are reloaded', async () => {
+      const listener = vi.fn()
+      provider.onDidChangeVirtualFile(listener)
+      const tempDocument = await openEditor()
+
+      type(jsonDocument, '= 1', '= 3')
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(listener).toHaveBeenCalledWith(tempDocument.uri)
+    })
+  })
+})
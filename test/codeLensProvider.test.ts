@@ -0,0 +1,145 @@
+import type { CancellationToken, TextDocument, WorkspaceConfiguration } from 'vscode'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Uri, workspace } from 'vscode'
+import { CodeDetector } from '../src/codeDetector'
+import { CodeStringCodeLensProvider } from '../src/codeLensProvider'
+import { LanguageSelector } from '../src/languageSelector'
+
+const token = { isCancellationRequested: false } as CancellationToken
+
+async function openExample(name: string): Promise<TextDocument> {
+  return workspace.openTextDocument(Uri.joinPath(Uri.file(process.cwd()), `examples/${name}`))
+}
+
+describe('detectAllCodeBlocks', () => {
+  it('should find every string value with its key path', async () => {
+    const document = await openExample('test-right-click.json')
+
+    const blocks = await new CodeDetector().detectAllCodeBlocks(document)
+
+    expect(blocks.map(block => block.keyPath)).toEqual([
+      'config.script',
+      'config.template',
+      'config.query',
+      'config.normalValue',
+      'singleProperty.code',
+      'multipleProperties.first',
+      'multipleProperties.second',
+      'multipleProperties.third',
+    ])
+    expect(blocks[0].code).toBe('console.log(\'Hello World\');')
+    expect(document.getText().slice(blocks[0].start, blocks[0].end)).toBe('"console.log(\'Hello World\');"')
+  })
+
+  it('should name array elements after their property', async () => {
+    const document = await openExample('test-right-click-array.json')
+
+    const blocks = await new CodeDetector().detectAllCodeBlocks(document)
+
+    expect(blocks.map(block => [block.fieldName, block.keyPath])).toEqual([
+      ['adaptor', 'adaptor.[0]'],
+      ['adaptor', 'adaptor.[1]'],
+    ])
+  })
+
+  it('should detect arrays of single-line strings of line fields as one block', async () => {
+    const document = await openExample('test-array-lines.json')
+
+    const blocks = await new CodeDetector().detectAllCodeBlocks(document)
+
+    expect(blocks.map(block => [block.keyPath, block.arrayLines ?? false])).toEqual([
+      ['script', true],
+      ['tags.[0]', false],
+      ['tags.[1]', false],
+      ['steps.[0].run', false],
+    ])
+    expect(blocks[0].code).toBe('const total = items.length\nreturn total')
+    expect(document.getText().slice(blocks[0].start, blocks[0].end)).toMatch(/^\[[\s\S]*\]$/)
+  })
+
+  it('should give keys containing dots, brackets or nothing their own path', async () => {
+    const document = await openExample('test-keypath-special-keys.json')
+
+    const blocks = await new CodeDetector().detectAllCodeBlocks(document)
+
+    expect(blocks.map(block => block.path)).toEqual([
+      ['a.b', 'script'],
+      ['a', 'b', 'script'],
+      ['[0]', 'script'],
+      ['', 'script'],
+      ['list', 0, 'script'],
+    ])
+    expect(blocks.map(block => block.keyPath)).toEqual([
+      '["a.b"].script',
+      'a.b.script',
+      '["[0]"].script',
+      '[""].script',
+      'list.[0].script',
+    ])
+  })
+})
+
+describe('codeStringCodeLensProvider', () => {
+  let settings: Record<string, unknown>
+  let provider: CodeStringCodeLensProvider
+
+  beforeEach(() => {
+    settings = {}
+    vi.spyOn(workspace, 'getConfiguration').mockReturnValue({
+      get: (key: string, defaultValue?: unknown) => key in settings ? settings[key] : defaultValue,
+    } as WorkspaceConfiguration)
+
+    const detector = new CodeDetector()
+    provider = new CodeStringCodeLensProvider({
+      getDetector: async () => detector,
+      getLanguageSelector: async () => LanguageSelector,
+      getShouldProcessFile: async () => () => true,
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should show lenses for multi-line strings and configured fields', async () => {
+    const document = await openExample('test-multiline-all-blocks.json')
+
+    const lenses = await provider.provideCodeLenses(document, token)
+
+    expect(lenses.map(lens => lens.codeBlockInfo.keyPath)).toEqual(['expression', 'script'])
+  })
+
+  it('should use the configured field names', async () => {
+    settings['codeLens.fieldNames'] = ['Handler']
+    const document = await openExample('test-multiline-all-blocks.json')
+
+    const lenses = await provider.provideCodeLenses(document, token)
+
+    expect(lenses.map(lens => lens.codeBlockInfo.keyPath)).toEqual(['expression', 'handler'])
+  })
+
+  it('should show nothing when disabled or the file is too large', async () => {
+    const document = await openExample('test-multiline-all-blocks.json')
+
+    settings['codeLens.enabled'] = false
+    expect(await provider.provideCodeLenses(document, token)).toEqual([])
+
+    settings['codeLens.enabled'] = true
+    settings['codeLens.maxFileSize'] = 10
+    expect(await provider.provideCodeLenses(document, token)).toEqual([])
+  })
+
+  it('should resolve a command opening the string with the detected language', async () => {
+    const document = await openExample('test-multiline-all-blocks.json')
+    const [lens] = await provider.provideCodeLenses(document, token)
+
+    const resolved = await provider.resolveCodeLens(lens)
+
+    expect(resolved.command?.title).toBe('Edit as JavaScript')
+    expect(resolved.command?.command).toBe('vscode-json-string-code-editor.editCodeAtRange')
+    expect(resolved.command?.arguments).toEqual([
+      document.uri.toString(),
+      { ...lens.codeBlockInfo, language: 'javascript' },
+    ])
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest'
+import { FileType, Uri } from 'vscode'
+import { CODE_STRING_SCHEME, CodeStringFileSystemProvider } from '../src/codeStringFileSystem'
+
+function createProvider(files: Record<string, string>) {
+  const writeCode = vi.fn(async (uri: Uri, code: string) => {
+    if (!(uri.toString() in files)) {
+      return false
+    }
+    files[uri.toString()] = code
+    return true
+  })
+  const provider = new CodeStringFileSystemProvider({
+    readCode: async uri => files[uri.toString()],
+    writeCode,
+  })
+  return { provider, writeCode }
+}
+
+describe('CodeStringFileSystemProvider', () => {
+  const uri = Uri.from({ scheme: CODE_STRING_SCHEME, path: '/config/flow.json/script_1a2b3c4d.js' })
+  const missingUri = Uri.from({ scheme: CODE_STRING_SCHEME, path: '/config/flow.json/missing_00000000.js' })
+
+  it('should read the current code of a session', async () => {
+    const { provider } = createProvider({ [uri.toString()]: 'const ü = "x"' })
+
+    const content = await provider.readFile(uri)
+    const stat = await provider.stat(uri)
+
+    expect(new TextDecoder().decode(content)).toBe('const ü = "x"')
+    expect(stat.type).toBe(FileType.File)
+    expect(stat.size).toBe(content.byteLength)
+  })
+
+  it('should keep a stable modified time until the value changes', async () => {
+    const files = { [uri.toString()]: 'a' }
+    const { provider } = createProvider(files)
+
+    const first = await provider.stat(uri)
+    const second = await provider.stat(uri)
+    files[uri.toString()] = 'b'
+    const changed = await provider.stat(uri)
+
+    expect(second.mtime).toBe(first.mtime)
+    expect(changed.mtime).toBeGreaterThan(first.mtime)
+  })
+
+  it('should report changes of the JSON string', () => {
+    const { provider } = createProvider({ [uri.toString()]: 'a' })
+    const listener = vi.fn()
+    provider.onDidChangeFile(listener)
+
+    provider.notifyChanged(uri)
+
+    expect(listener).toHaveBeenCalledWith([expect.objectContaining({ uri })])
+  })
+
+  it('should write saved content back through the source and report the change', async () => {
+    const files = { [uri.toString()]: 'old' }
+    const { provider, writeCode } = createProvider(files)
+    const listener = vi.fn()
+    provider.onDidChangeFile(listener)
+
+    await provider.writeFile(uri, new TextEncoder().encode('new'))
+
+    expect(writeCode).toHaveBeenCalledWith(uri, 'new')
+    expect(files[uri.toString()]).toBe('new')
+    expect(listener).toHaveBeenCalledWith([expect.objectContaining({ uri })])
+  })
+
+  it('should fail for files without a session', async () => {
+    const { provider } = createProvider({})
+
+    await expect(provider.readFile(missingUri)).rejects.toThrow()
+    await expect(provider.stat(missingUri)).rejects.toThrow()
+    await expect(provider.writeFile(missingUri, new Uint8Array())).rejects.toThrow()
+  })
+})
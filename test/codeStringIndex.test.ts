@@ -0,0 +1,112 @@
+import type { FileSystemWatcher, TextDocument, WorkspaceConfiguration } from 'vscode'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Uri, workspace } from 'vscode'
+import { CodeDetector } from '../src/codeDetector'
+import { CodeStringIndex, findMatchOffset } from '../src/codeStringIndex'
+import { LanguageSelector } from '../src/languageSelector'
+
+describe('findMatchOffset', () => {
+  it('should find text case-insensitively from an offset', () => {
+    expect(findMatchOffset('fetchUser(); FetchUser()', 'FETCHUSER')).toBe(0)
+    expect(findMatchOffset('fetchUser(); FetchUser()', 'fetchuser', 1)).toBe(13)
+    expect(findMatchOffset('fetchUser()', 'fetchOrder')).toBe(-1)
+  })
+})
+
+describe('codeStringIndex', () => {
+  let files: Map<string, string>
+  let watcherHandlers: { create: (uri: Uri) => void, change: (uri: Uri) => void, delete: (uri: Uri) => void }
+  let index: CodeStringIndex
+
+  const flowUri = Uri.file('/projects/flows/flow.json')
+  const otherUri = Uri.file('/projects/flows/other.json')
+
+  beforeEach(() => {
+    watcherHandlers = { create: () => {}, change: () => {}, delete: () => {} }
+    files = new Map([
+      [flowUri.toString(), JSON.stringify({
+        nodes: [
+          { script: 'const user = await fetchUser(id)\nreturn user.name' },
+          { script: 'return fetchOrder(id)' },
+        ],
+        title: 'fetchUser',
+      })],
+    ])
+
+    vi.spyOn(workspace, 'getConfiguration').mockReturnValue({
+      get: (_key: string, defaultValue?: unknown) => defaultValue,
+    } as WorkspaceConfiguration)
+    vi.spyOn(workspace, 'textDocuments', 'get').mockReturnValue([])
+    vi.spyOn(workspace, 'onDidChangeTextDocument').mockReturnValue({ dispose: () => {} })
+    vi.spyOn(workspace, 'findFiles').mockImplementation(async () => [...files.keys()].map(key => Uri.parse(key)))
+    vi.spyOn(workspace.fs, 'readFile').mockImplementation(async uri => new TextEncoder().encode(files.get(uri.toString())))
+    vi.spyOn(workspace, 'createFileSystemWatcher').mockImplementation(() => ({
+      onDidCreate: (handler: (uri: Uri) => void) => { watcherHandlers.create = handler },
+      onDidChange: (handler: (uri: Uri) => void) => { watcherHandlers.change = handler },
+      onDidDelete: (handler: (uri: Uri) => void) => { watcherHandlers.delete = handler },
+      dispose: () => {},
+    }) as unknown as FileSystemWatcher)
+
+    const detector = new CodeDetector()
+    index = new CodeStringIndex({
+      getDetector: async () => detector,
+      getLanguageSelector: async () => LanguageSelector,
+      getShouldProcessFile: async () => (document: TextDocument) => document.languageId === 'json',
+    })
+  })
+
+  afterEach(() => {
+    index.dispose()
+    vi.restoreAllMocks()
+  })
+
+  it('should find code strings by their unescaped content', async () => {
+    const matches = await index.search('FETCHUSER')
+
+    // "title" is a single-line string of a field that isn't listed as code
+    expect(matches).toHaveLength(1)
+    expect(matches[0].uri.toString()).toBe(flowUri.toString())
+    expect(matches[0].codeBlockInfo.keyPath).toBe('nodes.[0].script')
+    expect(matches[0].offset).toBe(19)
+    expect(matches[0].lineText).toBe('const user = await fetchUser(id)')
+  })
+
+  it('should only scan files again after they changed', async () => {
+    await index.search('fetchUser')
+    expect(workspace.fs.readFile).toHaveBeenCalledTimes(1)
+
+    await index.search('fetchOrder')
+    expect(workspace.fs.readFile).toHaveBeenCalledTimes(1)
+
+    files.set(flowUri.toString(), JSON.stringify({ script: 'fetchUser().then(render)' }))
+    watcherHandlers.change(flowUri)
+    files.set(otherUri.toString(), JSON.stringify({ query: 'select fetchUser()' }))
+    watcherHandlers.create(otherUri)
+
+    const matches = await index.search('fetchUser')
+
+    expect(workspace.fs.readFile).toHaveBeenCalledTimes(3)
+    expect(workspace.findFiles).toHaveBeenCalledTimes(1)
+    expect(matches.map(match => [match.uri.path, match.codeBlockInfo.keyPath])).toEqual([
+      ['/projects/flows/flow.json', 'script'],
+      ['/projects/flows/other.json', 'query'],
+    ])
+  })
+
+  it('should drop deleted files', async () => {
+    await index.search('fetchUser')
+
+    watcherHandlers.delete(flowUri)
+
+    expect(await index.search('fetchUser')).toEqual([])
+  })
+
+  it('should scan the whole workspace again after a reset', async () => {
+    await index.search('fetchUser')
+
+    index.reset()
+    await index.search('fetchUser')
+
+    expect(workspace.findFiles).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,125 @@
+import type { JSONPath } from 'jsonc-parser'
+import type { TextDocument, WorkspaceConfiguration } from 'vscode'
+import type { CodeBlockInfo } from '../src/codeDetector'
+import type { CodeStringEntryNode, CodeStringGroupNode } from '../src/codeStringsTreeProvider'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Range, Uri, window, workspace } from 'vscode'
+import { CodeDetector } from '../src/codeDetector'
+import { buildCodeStringTree, CodeStringsTreeProvider } from '../src/codeStringsTreeProvider'
+import { segmentsToKeyPath, toJsonPointer } from '../src/jsonUtils'
+import { LanguageSelector } from '../src/languageSelector'
+
+function block(path: JSONPath, code = 'return 1'): CodeBlockInfo {
+  const fieldName = path.filter(segment => typeof segment === 'string').pop() ?? ''
+  return { code, start: 0, end: 0, range: new Range(0, 0, 0, 0), fieldName, path, keyPath: segmentsToKeyPath(path) }
+}
+
+describe('buildCodeStringTree', () => {
+  it('should group strings by key path and merge single-child groups', () => {
+    const tree = buildCodeStringTree([
+      block(['config', 'database', 'query']),
+      block(['config', 'database', 'script']),
+      block(['nodes', 0, 'script']),
+      block(['nodes', 1, 'script']),
+      block(['handler']),
+    ])
+
+    expect(tree.map(node => node.label)).toEqual(['config.database', 'nodes', 'handler'])
+
+    const database = tree[0] as CodeStringGroupNode
+    expect(database.keyPath).toBe('config.database')
+    expect(database.children.map(node => node.label)).toEqual(['query', 'script'])
+
+    const nodes = tree[1] as CodeStringGroupNode
+    expect(nodes.children.map(node => node.label)).toEqual(['[0]', '[1]'])
+    expect((nodes.children[0] as CodeStringGroupNode).children.map(node => node.label)).toEqual(['script'])
+    expect(((nodes.children[1] as CodeStringGroupNode).children[0] as CodeStringEntryNode).codeBlockInfo.keyPath).toBe('nodes.[1].script')
+  })
+
+  it('should list array elements under their array', () => {
+    const tree = buildCodeStringTree([block(['adaptor', 0]), block(['adaptor', 1])])
+
+    expect(tree).toHaveLength(1)
+    expect((tree[0] as CodeStringGroupNode).children.map(node => node.label)).toEqual(['[0]', '[1]'])
+  })
+
+  it('should keep keys containing dots apart from nested keys', () => {
+    const tree = buildCodeStringTree([block(['a.b', 'script']), block(['a', 'b', 'script'])])
+
+    expect(tree.map(node => node.label)).toEqual(['["a.b"]', 'a.b'])
+    expect((tree[0] as CodeStringGroupNode).path).toEqual(['a.b'])
+    expect((tree[1] as CodeStringGroupNode).path).toEqual(['a', 'b'])
+  })
+})
+
+describe('codeStringsTreeProvider', () => {
+  let document: TextDocument
+  let openPaths: Set<string>
+  let provider: CodeStringsTreeProvider
+
+  beforeEach(async () => {
+    vi.spyOn(workspace, 'getConfiguration').mockReturnValue({
+      get: (_key: string, defaultValue?: unknown) => defaultValue,
+    } as WorkspaceConfiguration)
+    const disposable = { dispose: () => {} }
+    vi.spyOn(window, 'onDidChangeActiveTextEditor').mockReturnValue(disposable)
+    vi.spyOn(workspace, 'onDidChangeTextDocument').mockReturnValue(disposable)
+    vi.spyOn(workspace, 'onDidCloseTextDocument').mockReturnValue(disposable)
+
+    document = await workspace.openTextDocument(Uri.joinPath(Uri.file(process.cwd()), 'examples/test-multiline-all-blocks.json'))
+    Object.defineProperty(document, 'languageId', { value: 'json' })
+    Object.defineProperty(window, 'activeTextEditor', { value: { document }, configurable: true })
+
+    openPaths = new Set()
+    const detector = new CodeDetector()
+    provider = new CodeStringsTreeProvider(
+      {
+        getDetector: async () => detector,
+        getLanguageSelector: async () => LanguageSelector,
+        getShouldProcessFile: async () => () => true,
+      },
+      (_uri, path) => openPaths.has(toJsonPointer(path)),
+    )
+  })
+
+  afterEach(() => {
+    provider.dispose()
+    Object.defineProperty(window, 'activeTextEditor', { value: undefined, configurable: true })
+    vi.restoreAllMocks()
+  })
+
+  it('should list the strings of the active JSON document that look like code', async () => {
+    const nodes = await provider.getChildren()
+
+    expect(nodes.map(node => node.kind === 'string' && node.codeBlockInfo.keyPath)).toEqual(['expression', 'script'])
+  })
+
+  it('should describe language, line count and open state and open the string on click', async () => {
+    const [expression] = await provider.getChildren() as CodeStringEntryNode[]
+    openPaths.add('/expression')
+
+    const item = await provider.getTreeItem(expression)
+
+    const lineCount = expression.codeBlockInfo.code.split('\n').length
+    expect(item.label).toBe('expression')
+    expect(item.description).toBe(`JavaScript · ${lineCount} lines · open`)
+    expect(item.command?.command).toBe('vscode-json-string-code-editor.editCodeAtRange')
+    expect(item.command?.arguments).toEqual([
+      document.uri.toString(),
+      { ...expression.codeBlockInfo, language: 'javascript' },
+    ])
+  })
+
+  it('should list nothing for files that are not processed', async () => {
+    provider = new CodeStringsTreeProvider(
+      {
+        getDetector: async () => new CodeDetector(),
+        getLanguageSelector: async () => LanguageSelector,
+        getShouldProcessFile: async () => () => false,
+      },
+      () => false,
+    )
+
+    expect(await provider.getChildren()).toEqual([])
+  })
+})
@@ -0,0 +1,90 @@
+import type { DiagnosticCollection, TextDocument, TextDocumentChangeEvent } from 'vscode'
+import type { DiagnosticsSource } from '../src/diagnosticsMirror'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Diagnostic, DiagnosticSeverity, languages, Range, Uri, workspace } from 'vscode'
+import { DiagnosticsMirror } from '../src/diagnosticsMirror'
+import { locateStringTarget } from '../src/jsonUtils'
+
+describe('diagnosticsMirror', () => {
+  const originalText = '{\n  "script": "let a = \\"x\\"\\nundefinedName()"\n}'
+  let originalDocument: TextDocument
+  let tempDocument: TextDocument
+  let collection: { set: ReturnType<typeof vi.fn>, dispose: () => void }
+  let mirror: DiagnosticsMirror
+  let changeDocument: (event: TextDocumentChangeEvent) => void
+
+  beforeEach(async () => {
+    originalDocument = await workspace.openTextDocument({ content: originalText })
+    tempDocument = await workspace.openTextDocument({ content: 'let a = "x"\nundefinedName()' })
+    // Untitled documents of the mock share their URI
+    Object.defineProperty(tempDocument, 'uri', { value: Uri.file('/tmp/vscode-json-string-code-editor/script_1a2b3c4d.js') })
+    collection = { set: vi.fn(), dispose: () => {} }
+
+    vi.spyOn(languages, 'createDiagnosticCollection').mockReturnValue(collection as unknown as DiagnosticCollection)
+    vi.spyOn(languages, 'onDidChangeDiagnostics').mockReturnValue({ dispose: () => {} })
+    vi.spyOn(workspace, 'onDidChangeTextDocument').mockImplementation((listener) => {
+      changeDocument = listener
+      return { dispose: () => {} }
+    })
+    vi.spyOn(workspace, 'onDidChangeConfiguration').mockReturnValue({ dispose: () => {} })
+    vi.spyOn(workspace, 'textDocuments', 'get').mockReturnValue([originalDocument, tempDocument])
+    vi.spyOn(languages, 'getDiagnostics').mockImplementation(((uri: Uri) => uri.toString() === tempDocument.uri.toString()
+      ? [new Diagnostic(new Range(1, 0, 1, 13), 'Cannot find name \'undefinedName\'.', DiagnosticSeverity.Error)]
+      : []) as typeof languages.getDiagnostics)
+  })
+
+  afterEach(() => {
+    mirror.dispose()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  function createSource(tempUris: Uri[]): DiagnosticsSource {
+    return {
+      onDidChangeSessions: () => ({ dispose: () => {} }),
+      getTempUris: () => tempUris,
+      locateString: () => {
+        const target = locateStringTarget(originalDocument.getText(), ['script'], tempDocument.getText())
+        return target && { document: originalDocument, target }
+      },
+    }
+  }
+
+  it('should show diagnostics of temporary documents inside the escaped string', () => {
+    mirror = new DiagnosticsMirror(createSource([tempDocument.uri]))
+
+    const [uri, diagnostics] = collection.set.mock.calls.at(-1)!
+    const range = diagnostics[0].range as Range
+    expect(uri.toString()).toBe(originalDocument.uri.toString())
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0].message).toBe('Cannot find name \'undefinedName\'.')
+    expect(originalDocument.getText(range)).toBe('undefinedName')
+  })
+
+  it('should clear diagnostics once the temporary document is closed', () => {
+    const tempUris = [tempDocument.uri]
+    mirror = new DiagnosticsMirror(createSource(tempUris))
+
+    tempUris.pop()
+    mirror.updateAll()
+
+    const [uri, diagnostics] = collection.set.mock.calls.at(-1)!
+    expect(uri.toString()).toBe(originalDocument.uri.toString())
+    expect(diagnostics).toEqual([])
+  })
+
+  it('should map diagnostics again once typing in the JSON file pauses', () => {
+    vi.useFakeTimers()
+    mirror = new DiagnosticsMirror(createSource([tempDocument.uri]))
+    collection.set.mockClear()
+
+    changeDocument({ document: { uri: Uri.file('/other.json') } } as TextDocumentChangeEvent)
+    vi.advanceTimersByTime(1000)
+    expect(collection.set).not.toHaveBeenCalled()
+
+    changeDocument({ document: originalDocument } as TextDocumentChangeEvent)
+    changeDocument({ document: originalDocument } as TextDocumentChangeEvent)
+    vi.advanceTimersByTime(1000)
+    expect(collection.set).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,248 @@
+import type { EscapeOptions } from '../src/escapeUtils'
+import { describe, expect, it } from 'vitest'
+import { decodeJsonString, detectEscapeOptions, encodeJsonString, getLiteralOffsets, resolveEscapeOptions, updateJsonStringLiteral } from '../src/escapeUtils'
+import { applyReplacement, parseJsonTree, replaceStringNode } from '../src/jsonUtils'
+
+const RUNS = 500
+
+/**
+ * Seeded random number generator (mulberry32), so failures can be reproduced
+ */
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6D2B79F5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function unicodeEscape(random: () => number, charCode: number): string {
+  const hex = charCode.toString(16).padStart(4, '0')
+  return `\\u${random() < 0.5 ? hex : hex.toUpperCase()}`
+}
+
+const SHORT_ESCAPES: Record<string, string> = { '"': '\\"', '\\': '\\\\', '/': '\\/', '\b': '\\b', '\f': '\\f', '\n': '\\n', '\r': '\\r', '\t': '\\t' }
+
+/**
+ * Generate one character of a value together with a valid way of writing it in a literal
+ */
+function generateChar(random: () => number): { value: string, raw: string } {
+  const kind = pick(random, ['ascii', 'ascii', 'ascii', 'special', 'control', 'bmp', 'astral', 'lone'])
+  switch (kind) {
+    case 'special':
+    case 'control': {
+      const char = kind === 'special' ? pick(random, ['"', '\\', '/']) : String.fromCharCode(Math.floor(random() * 0x20))
+      const raw = char === '/' && random() < 0.4 ? '/' : SHORT_ESCAPES[char] && random() < 0.7 ? SHORT_ESCAPES[char] : unicodeEscape(random, char.charCodeAt(0))
+      return { value: char, raw }
+    }
+    case 'bmp': {
+      const char = pick(random, ['é', 'ß', '中', '文', ' ', ' ', '€'])
+      return { value: char, raw: random() < 0.5 ? char : unicodeEscape(random, char.charCodeAt(0)) }
+    }
+    case 'astral': {
+      const char = pick(random, ['😀', '𝄞', '🚀'])
+      return { value: char, raw: random() < 0.5 ? char : unicodeEscape(random, char.charCodeAt(0)) + unicodeEscape(random, char.charCodeAt(1)) }
+    }
+    case 'lone': {
+      const char = String.fromCharCode(pick(random, [0xD800, 0xDBFF, 0xDC00, 0xDFFF]))
+      return { value: char, raw: unicodeEscape(random, char.charCodeAt(0)) }
+    }
+    default: {
+      const char = String.fromCharCode(0x20 + Math.floor(random() * 0x5F))
+      if (char === '"' || char === '\\') {
+        return { value: char, raw: SHORT_ESCAPES[char] }
+      }
+      return { value: char, raw: random() < 0.9 ? char : unicodeEscape(random, char.charCodeAt(0)) }
+    }
+  }
+}
+
+/**
+ * Generate a string literal written in a random but valid style, with its value
+ */
+function generateLiteral(random: () => number): { literal: string, value: string } {
+  const chars = Array.from({ length: Math.floor(random() * 40) }, () => generateChar(random))
+  // A lone high surrogate followed by a low surrogate would form a pair, keep generated characters apart
+  const separated = chars.flatMap((char, index) => index > 0 && char.value.length === 1 && /[\uDC00-\uDFFF]/.test(char.value) ? [{ value: 'x', raw: 'x' }, char] : [char])
+  return {
+    literal: `"${separated.map(char => char.raw).join('')}"`,
+    value: separated.map(char => char.value).join(''),
+  }
+}
+
+/**
+ * Change a value by replacing a random part with random characters
+ */
+function mutate(random: () => number, value: string): string {
+  const start = Math.floor(random() * (value.length + 1))
+  const end = start + Math.floor(random() * (value.length - start + 1))
+  const insert = Array.from({ length: Math.floor(random() * 5) }, () => generateChar(random).value).join('')
+  return value.slice(0, start) + insert + value.slice(end)
+}
+
+function generateOptions(random: () => number): EscapeOptions {
+  return { nonAscii: pick(random, ['keep', 'escape'] as const), escapeSlash: random() < 0.5, uppercaseHex: random() < 0.5 }
+}
+
+function hasLoneSurrogate(text: string): boolean {
+  return /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?:^|[^\uD800-\uDBFF])[\uDC00-\uDFFF]/.test(text)
+}
+
+describe('escapeUtils', () => {
+  describe('decodeJsonString', () => {
+    it('should decode each escape once', () => {
+      expect(decodeJsonString('"const re = /\\\\d+/g; const s = \'a\\\\nb\'"')).toBe('const re = /\\d+/g; const s = \'a\\nb\'')
+      expect(decodeJsonString('"\\u0041\\u0042 \\u0041"')).toBe('AB A')
+      expect(decodeJsonString('"\\ud83d\\ude00"')).toBe('😀')
+    })
+
+    it('should return undefined for other values', () => {
+      expect(decodeJsonString('42')).toBeUndefined()
+    })
+  })
+
+  describe('encodeJsonString', () => {
+    it('should match JSON.stringify by default', () => {
+      const value = 'if (a < "b") {\n\treturn \'c\\\\d\' // é 😀 /x/\u0001\n}'
+      expect(encodeJsonString(value)).toBe(JSON.stringify(value))
+    })
+
+    it('should escape non-ASCII characters and slashes when asked', () => {
+      expect(encodeJsonString('é 😀 </script>', { nonAscii: 'escape', escapeSlash: true })).toBe('"\\u00e9 \\ud83d\\ude00 <\\/script>"')
+      expect(encodeJsonString('é', { nonAscii: 'escape', escapeSlash: false, uppercaseHex: true })).toBe('"\\u00E9"')
+    })
+
+    it('should always escape lone surrogates', () => {
+      expect(encodeJsonString('a\uD800b')).toBe('"a\\ud800b"')
+    })
+  })
+
+  describe('detectEscapeOptions', () => {
+    it('should follow the style of the literal', () => {
+      expect(detectEscapeOptions('"caf\\u00E9 <\\/a>"')).toEqual({ nonAscii: 'escape', escapeSlash: true, uppercaseHex: true })
+      expect(detectEscapeOptions('"café </a>"')).toEqual({ nonAscii: 'keep', escapeSlash: false, uppercaseHex: false })
+      expect(detectEscapeOptions('"plain"')).toEqual({ nonAscii: 'keep', escapeSlash: false, uppercaseHex: false })
+    })
+
+    it('should let settings override the detected style', () => {
+      expect(resolveEscapeOptions('"caf\\u00e9 <\\/a>"', { nonAscii: 'keep', forwardSlash: 'preserve' }))
+        .toEqual({ nonAscii: 'keep', escapeSlash: true, uppercaseHex: false })
+    })
+  })
+
+  describe('updateJsonStringLiteral', () => {
+    it('should keep the escapes of unchanged parts', () => {
+      const literal = '"<\\/div> \\u00e9t\\u00E9 \\u0041"'
+
+      expect(updateJsonStringLiteral(literal, '</div> été AB')).toBe('"<\\/div> \\u00e9t\\u00E9 \\u0041B"')
+    })
+
+    it('should escape the changed part like the rest of the literal', () => {
+      expect(updateJsonStringLiteral('"caf\\u00e9"', 'café crème')).toBe('"caf\\u00e9 cr\\u00e8me"')
+      expect(updateJsonStringLiteral('"a\\/b"', 'a/b/c')).toBe('"a\\/b\\/c"')
+    })
+
+    it('should rewrite literals that are not plain JSON', () => {
+      expect(updateJsonStringLiteral('"\\x41"', 'B')).toBe('"B"')
+    })
+  })
+
+  describe('getLiteralOffsets', () => {
+    it('should map each character of the value to its escape sequence', () => {
+      const literal = '"a\\nb \\"c\\" \\u00e9"'
+      const value = decodeJsonString(literal)!
+
+      const offsets = getLiteralOffsets(literal)!
+
+      expect(value).toBe('a\nb "c" é')
+      expect(offsets).toHaveLength(value.length + 1)
+      expect(literal.slice(offsets[1], offsets[2])).toBe('\\n')
+      expect(literal.slice(offsets[4], offsets[5])).toBe('\\"')
+      expect(literal.slice(offsets[8], offsets[9])).toBe('\\u00e9')
+      expect(offsets[value.length]).toBe(literal.length - 1)
+    })
+
+    it('should map characters outside ASCII by UTF-16 code unit', () => {
+      expect(getLiteralOffsets('"é😀x"')).toEqual([1, 2, 3, 4, 5])
+      expect(getLiteralOffsets('"\\ud83d\\ude00x"')).toEqual([1, 7, 13, 14])
+    })
+
+    it('should return undefined for literals that are not plain JSON', () => {
+      expect(getLiteralOffsets('"\\x41"')).toBeUndefined()
+    })
+
+    it('should point every character at the text it is decoded from', () => {
+      const random = createRandom(6)
+      for (let run = 0; run < RUNS; run++) {
+        const { literal, value } = generateLiteral(random)
+        const offsets = getLiteralOffsets(literal)!
+        const decoded = Array.from({ length: value.length }, (_, index) => decodeJsonString(`"${literal.slice(offsets[index], offsets[index + 1])}"`))
+        // Surrogate pairs are mapped per half, each half decodes on its own
+        expect(decoded.join(''), literal).toBe(value)
+      }
+    })
+  })
+
+  describe('round trips', () => {
+    it('should decode like JSON.parse', () => {
+      const random = createRandom(1)
+      for (let run = 0; run < RUNS; run++) {
+        const { literal, value } = generateLiteral(random)
+        expect(JSON.parse(literal)).toBe(value)
+        expect(decodeJsonString(literal), literal).toBe(value)
+      }
+    })
+
+    it('should give back the literal byte-identical when the value is unchanged', () => {
+      const random = createRandom(2)
+      for (let run = 0; run < RUNS; run++) {
+        const { literal, value } = generateLiteral(random)
+        expect(updateJsonStringLiteral(literal, value, generateOptions(random)), literal).toBe(literal)
+      }
+    })
+
+    it('should encode values that decode to themselves', () => {
+      const random = createRandom(3)
+      for (let run = 0; run < RUNS; run++) {
+        const { value } = generateLiteral(random)
+        const encoded = encodeJsonString(value, generateOptions(random))
+        expect(JSON.parse(encoded), encoded).toBe(value)
+        expect(hasLoneSurrogate(encoded), encoded).toBe(false)
+      }
+    })
+
+    it('should write edited values that decode to the new value', () => {
+      const random = createRandom(4)
+      for (let run = 0; run < RUNS; run++) {
+        const { literal, value } = generateLiteral(random)
+        const newValue = mutate(random, value)
+        const updated = updateJsonStringLiteral(literal, newValue, generateOptions(random))
+        expect(JSON.parse(updated), `${literal} -> ${updated}`).toBe(newValue)
+        expect(hasLoneSurrogate(updated), updated).toBe(false)
+      }
+    })
+
+    it('should leave documents byte-identical when strings are saved without edits', () => {
+      const random = createRandom(5)
+      for (let run = 0; run < RUNS / 10; run++) {
+        const literals = Array.from({ length: 5 }, () => generateLiteral(random).literal)
+        const text = `{\n  // comment\n${literals.map((literal, index) => `  "key${index}": ${literal}`).join(',\n')},\n}\n`
+
+        let result = text
+        for (const property of parseJsonTree(text)?.children ?? []) {
+          const node = property.children?.[1]
+          if (node?.type === 'string') {
+            result = applyReplacement(result, replaceStringNode(result, node, node.value))
+          }
+        }
+        expect(result).toBe(text)
+      }
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import type { CancellationToken, MarkdownString, TextDocument, WorkspaceConfiguration } from 'vscode'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Position, Uri, workspace } from 'vscode'
+import { CodeDetector } from '../src/codeDetector'
+import { CodeStringHoverProvider, createCodeFence, escapeMarkdown } from '../src/hoverProvider'
+import { LanguageSelector } from '../src/languageSelector'
+
+// The vscode mock has no Hover, add a minimal one keeping its contents as a list
+vi.mock('vscode', async () => {
+  const vscode = (await import('jest-mock-vscode')).createVSCodeMock(vi)
+  return {
+    ...vscode,
+    Hover: class {
+      contents: unknown[]
+      constructor(contents: unknown, public range?: unknown) {
+        this.contents = Array.isArray(contents) ? contents : [contents]
+      }
+    },
+  }
+})
+
+const token = { isCancellationRequested: false } as CancellationToken
+
+async function openExample(name: string): Promise<TextDocument> {
+  return workspace.openTextDocument(Uri.joinPath(Uri.file(process.cwd()), `examples/${name}`))
+}
+
+describe('createCodeFence', () => {
+  it('should fence code with the language', () => {
+    expect(createCodeFence('let a = 1', 'javascript')).toBe('```javascript\nlet a = 1\n```')
+  })
+
+  it('should use a longer fence than any backtick run in the code', () => {
+    expect(createCodeFence('const md = `````', 'javascript')).toBe('``````javascript\nconst md = `````\n``````')
+  })
+})
+
+describe('escapeMarkdown', () => {
+  it('should escape links and emphasis', () => {
+    expect(escapeMarkdown('[run](command:x) *a_b*')).toBe('\\[run\\]\\(command:x\\) \\*a\\_b\\*')
+  })
+})
+
+describe('codeStringHoverProvider', () => {
+  let settings: Record<string, unknown>
+  let provider: CodeStringHoverProvider
+
+  beforeEach(() => {
+    settings = {}
+    vi.spyOn(workspace, 'getConfiguration').mockReturnValue({
+      get: (key: string, defaultValue?: unknown) => key in settings ? settings[key] : defaultValue,
+    } as WorkspaceConfiguration)
+
+    const detector = new CodeDetector()
+    provider = new CodeStringHoverProvider({
+      getDetector: async () => detector,
+      getLanguageSelector: async () => LanguageSelector,
+      getShouldProcessFile: async () => () => true,
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should preview a multi-line string unescaped with edit links', async () => {
+    const document = await openExample('test-multiline-all-blocks.json')
+
+    const hover = await provider.provideHover(document, new Position(2, 20), token)
+    const markdown = (hover?.contents[0] as MarkdownString).value
+
+    expect(markdown).toContain('**expression** · JavaScript')
+    expect(markdown).toContain('```javascript\ntry {\n  let result = payload.data.items.map(el => {\n')
+    expect(markdown).toContain('[Edit as JavaScript](command:vscode-json-string-code-editor.editCodeAtRange?')
+    expect(markdown).toContain('[Edit as…](command:vscode-json-string-code-editor.editCodeAtRange?')
+    expect(hover?.contents[0]).toMatchObject({ isTrusted: { enabledCommands: ['vscode-json-string-code-editor.editCodeAtRange'] } })
+  })
+
+  it('should pass only the location of the string to the edit command', async () => {
+    const document = await openExample('test-multiline-all-blocks.json')
+
+    const hover = await provider.provideHover(document, new Position(2, 20), token)
+    const markdown = (hover?.contents[0] as MarkdownString).value
+    const link = markdown.match(/\[Edit as JavaScript\]\(command:[^?]+\?([^)]+)\)/)
+
+    const [documentUri, location] = JSON.parse(decodeURIComponent(link![1]))
+    expect(documentUri).toBe(document.uri.toString())
+    expect(location).toEqual({
+      start: document.getText().indexOf('"try {'),
+      end: expect.any(Number),
+      fieldName: 'expression',
+      path: ['expression'],
+      keyPath: 'expression',
+      language: 'javascript',
+    })
+  })
+
+  it('should truncate long values', async () => {
+    settings['hover.maxLength'] = 10
+    const document = await openExample('test-multiline-all-blocks.json')
+
+    const hover = await provider.provideHover(document, new Position(2, 20), token)
+    const markdown = (hover?.contents[0] as MarkdownString).value
+
+    expect(markdown).toContain('```javascript\ntry {\n  le\n```')
+    expect(markdown).toMatch(/_Showing the first 10 of \d+ characters_/)
+  })
+
+  it('should not show a hover for strings without escapes', async () => {
+    const document = await openExample('test-multiline-all-blocks.json')
+
+    expect(await provider.provideHover(document, new Position(1, 20), token)).toBeNull()
+  })
+
+  it('should not show a hover when disabled', async () => {
+    settings['hover.enabled'] = false
+    const document = await openExample('test-multiline-all-blocks.json')
+
+    expect(await provider.provideHover(document, new Position(2, 20), token)).toBeNull()
+  })
+})
@@ -0,0 +1,336 @@
+import type { JSONPath } from 'jsonc-parser'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { alignFragment, applyReplacement, createValueOffsetMap, findStringNode, isAmbiguousPath, isSamePath, keyPathToSegments, locateStringTarget, mapEditedRangeToDocument, parseJsonTree, replaceStringNode, replaceTargetValue, segmentsToKeyPath, spliceFragment, toJsonPointer, toValueOffset } from '../src/jsonUtils'
+
+function writeBack(text: string, path: JSONPath, value: string): string {
+  return applyReplacement(text, replaceStringNode(text, findStringNode(text, path)!, value))
+}
+
+describe('keyPathToSegments', () => {
+  it('should convert array indices to numbers', () => {
+    expect(keyPathToSegments('config.items.[0].name')).toEqual(['config', 'items', 0, 'name'])
+  })
+
+  it('should ignore empty segments', () => {
+    expect(keyPathToSegments('script')).toEqual(['script'])
+    expect(keyPathToSegments('')).toEqual([])
+  })
+})
+
+describe('format-preserving write-back', () => {
+  it('should keep comments in JSONC files', () => {
+    const text = [
+      '{',
+      '  // Build script',
+      '  "script": "console.log(1)", /* inline */',
+      '  "other": "value"',
+      '}',
+    ].join('\n')
+
+    const result = writeBack(text, ['script'], 'console.log(2)')
+
+    expect(result).toBe(text.replace('console.log(1)', 'console.log(2)'))
+  })
+
+  it('should work with trailing commas', () => {
+    const text = '{\n  "items": [\n    "a",\n    "b",\n  ],\n}\n'
+
+    const result = writeBack(text, ['items', 1], 'c')
+
+    expect(result).toBe('{\n  "items": [\n    "a",\n    "c",\n  ],\n}\n')
+  })
+
+  it('should keep CRLF line endings outside the literal', () => {
+    const text = '{\r\n  "a": 1,\r\n  "script": "x"\r\n}\r\n'
+
+    const result = writeBack(text, ['script'], 'line1\nline2')
+
+    expect(result).toBe('{\r\n  "a": 1,\r\n  "script": "line1\\nline2"\r\n}\r\n')
+  })
+
+  it('should keep tab indentation and key order', () => {
+    const text = '{\n\t"z": {\n\t\t"code": "old"\n\t},\n\t"a": true\n}'
+
+    const result = writeBack(text, ['z', 'code'], 'new')
+
+    expect(result).toBe('{\n\t"z": {\n\t\t"code": "new"\n\t},\n\t"a": true\n}')
+  })
+
+  it('should escape quotes, backslashes and control characters', () => {
+    const text = '{"script": ""}'
+
+    const result = writeBack(text, ['script'], 'say("hi")\t\\\n')
+
+    expect(result).toBe('{"script": "say(\\"hi\\")\\t\\\\\\n"}')
+    expect(JSON.parse(result).script).toBe('say("hi")\t\\\n')
+  })
+
+  it('should update nested array elements', () => {
+    const text = '{ "steps": [ { "run": "a" }, { "run": "b" } ] }'
+
+    const result = writeBack(text, ['steps', 1, 'run'], 'c')
+
+    expect(result).toBe('{ "steps": [ { "run": "a" }, { "run": "c" } ] }')
+  })
+
+  it('should tell apart keys containing dots, brackets or nothing', () => {
+    const text = '{ "a.b": "dotted", "a": { "b": "nested" }, "[0]": "bracketed", "list": ["first"], "": "empty" }'
+
+    expect(JSON.parse(writeBack(text, ['a.b'], 'x'))).toMatchObject({ 'a.b': 'x', 'a': { b: 'nested' } })
+    expect(JSON.parse(writeBack(text, ['a', 'b'], 'x'))).toMatchObject({ 'a.b': 'dotted', 'a': { b: 'x' } })
+    expect(JSON.parse(writeBack(text, ['[0]'], 'x'))).toMatchObject({ '[0]': 'x', 'list': ['first'] })
+    expect(JSON.parse(writeBack(text, [''], 'x'))).toMatchObject({ '': 'x', '[0]': 'bracketed' })
+  })
+
+  it('should write JSON-encoded strings back through each level', () => {
+    const text = readFileSync(join(process.cwd(), 'examples/test-nested-json.json'), 'utf8')
+    const body = JSON.parse(text).request.body as string
+
+    // A nested editor writes into the temporary document of the body, which is then written into the file
+    const newBody = writeBack(body, ['query'], 'SELECT id\nFROM users')
+    const result = writeBack(text, ['request', 'body'], newBody)
+
+    expect(JSON.parse(JSON.parse(result).request.body)).toEqual({ query: 'SELECT id\nFROM users', params: { limit: 10 } })
+    expect(result).toBe(text.replace('SELECT id, name\\\\nFROM users\\\\nWHERE active = 1', 'SELECT id\\\\nFROM users'))
+  })
+})
+
+describe('locateStringTarget', () => {
+  const text = '{\n  "items": [\n    "a",\n    "b",\n    "script"\n  ]\n}'
+  const start = text.indexOf('"script"')
+  const offsets = { start, end: start + '"script"'.length }
+
+  it('should find the string by tracked offsets and report its current key path', () => {
+    const shifted = text.replace('    "a",\n', '    "new",\n    "a",\n')
+    const shiftedStart = shifted.indexOf('"script"')
+
+    const target = locateStringTarget(shifted, ['items', 2], 'script', { start: shiftedStart, end: shiftedStart + 8 })
+
+    expect(target?.verified).toBe(true)
+    expect(target?.path).toEqual(['items', 3])
+    expect(target?.keyPath).toBe('items.[3]')
+    expect(target?.node.value).toBe('script')
+  })
+
+  it('should follow a renamed parent key', () => {
+    const renamed = text.replace('"items"', '"steps"')
+
+    const target = locateStringTarget(renamed, ['items', 2], 'script', offsets)
+
+    expect(target?.keyPath).toBe('steps.[2]')
+    expect(target?.verified).toBe(true)
+  })
+
+  it('should fall back to the key path and verify the value', () => {
+    const target = locateStringTarget(text, ['items', 2], 'script')
+
+    expect(target?.verified).toBe(true)
+    expect(target?.node.offset).toBe(start)
+  })
+
+  it('should not verify a different value at the key path', () => {
+    const target = locateStringTarget(text, ['items', 1], 'script')
+
+    expect(target?.verified).toBe(false)
+    expect(target?.node.value).toBe('b')
+  })
+
+  it('should not match a property key at the tracked offsets', () => {
+    const objectText = '{ "script": "x" }'
+
+    expect(locateStringTarget(objectText, ['missing'], 'x', { start: 2, end: 10 })).toBeUndefined()
+  })
+
+  it('should report the path of keys containing dots', () => {
+    const dotted = '{ "a": { "b": "x" }, "a.b": "x" }'
+    const dottedStart = dotted.lastIndexOf('"x"')
+
+    const target = locateStringTarget(dotted, ['a', 'b'], 'x', { start: dottedStart, end: dottedStart + 3 })
+
+    expect(target?.path).toEqual(['a.b'])
+    expect(target?.keyPath).toBe('["a.b"]')
+  })
+
+  it('should find the string by tracked offsets while the document has syntax errors', () => {
+    const broken = '{\n  "items": [\n    "a"\n    "script"\n  ],\n  "next": '
+    const brokenStart = broken.indexOf('"script"')
+
+    const target = locateStringTarget(broken, ['items', 2], 'script', { start: brokenStart, end: brokenStart + 8 })
+
+    expect(target?.path).toEqual(['items', 1])
+    expect(target?.verified).toBe(true)
+    expect(applyReplacement(broken, replaceStringNode(broken, target!.node, 'changed'))).toBe(broken.replace('"script"', '"changed"'))
+  })
+
+  it('should report strings found by a path that other strings share', () => {
+    const duplicated = '{ "script": "first", "script": "second" }'
+
+    const target = locateStringTarget(duplicated, ['script'], 'first')
+
+    expect(target?.node.value).toBe('first')
+    expect(target?.ambiguous).toBe(true)
+    expect(locateStringTarget(text, ['items', 2], 'script')?.ambiguous).toBe(false)
+  })
+
+  it('should locate arrays of strings edited as lines', () => {
+    const lines = '{\n  "script": [\n    "a",\n    "b"\n  ]\n}'
+    const arrayStart = lines.indexOf('[')
+    const arrayOffsets = { start: arrayStart, end: lines.indexOf(']') + 1 }
+
+    const tracked = locateStringTarget(lines, ['script'], 'a\nb', arrayOffsets, true)
+    const byPath = locateStringTarget(lines, ['script'], 'a\nb', undefined, true)
+
+    expect(tracked?.value).toBe('a\nb')
+    expect(tracked?.verified).toBe(true)
+    expect(byPath?.node.offset).toBe(arrayStart)
+    expect(locateStringTarget(lines, ['script'], 'a\nb', arrayOffsets)).toBeUndefined()
+    expect(applyReplacement(lines, replaceTargetValue(lines, tracked!, 'a\nc'))).toBe(lines.replace('"b"', '"c"'))
+  })
+
+  it('should return undefined when the target no longer exists', () => {
+    expect(locateStringTarget('{ "items": [] }', ['items', 2], 'script')).toBeUndefined()
+  })
+})
+
+describe('createValueOffsetMap', () => {
+  it('should map values to the document through escapes', () => {
+    const text = '{ "script": "a\\n\\"b\\"" }'
+    const node = parseJsonTree(text)?.children?.[0]?.children?.[1]
+
+    const offsets = createValueOffsetMap(text, node!)
+
+    expect(offsets.map(offset => text[offset])).toEqual(['a', '\\', '\\', 'b', '\\', '"'])
+    expect(offsets[5]).toBe(text.lastIndexOf('"'))
+  })
+
+  it('should map line breaks between elements of arrays edited as lines to the end of the element', () => {
+    const text = '{ "script": ["a", "\\tb"] }'
+    const node = parseJsonTree(text)?.children?.[0]?.children?.[1]
+
+    const offsets = createValueOffsetMap(text, node!)
+
+    // Value "a\n\tb"
+    expect(offsets).toEqual([14, 15, 19, 21, 22])
+  })
+})
+
+describe('toValueOffset', () => {
+  const text = '{ "script": ["a\\nb", "c"] }'
+  const offsetMap = createValueOffsetMap(text, parseJsonTree(text)!.children![0].children![1])
+
+  it('should map document offsets inside escapes to the character they decode to', () => {
+    expect(toValueOffset(offsetMap, text.indexOf('\\'))).toBe(1)
+    expect(toValueOffset(offsetMap, text.indexOf('\\') + 1)).toBe(1)
+    expect(toValueOffset(offsetMap, text.indexOf('b'))).toBe(2)
+  })
+
+  it('should clamp offsets outside the literals to the value', () => {
+    expect(toValueOffset(offsetMap, 0)).toBe(0)
+    // Between two elements is the end of the first line
+    expect(toValueOffset(offsetMap, text.indexOf(', "c"') + 1)).toBe(3)
+    expect(toValueOffset(offsetMap, text.length)).toBe(5)
+  })
+})
+
+describe('mapEditedRangeToDocument', () => {
+  const text = '{ "script": "const s = \\"é\\"\\nfoo(s)" }'
+  const value = 'const s = "é"\nfoo(s)'
+  const offsetMap = createValueOffsetMap(text, locateStringTarget(text, ['script'], value)!.node)
+
+  it('should map ranges after escapes to their exact position in the literal', () => {
+    const start = value.indexOf('foo')
+
+    const range = mapEditedRangeToDocument(offsetMap, value, value, { start, end: start + 3 })
+
+    expect(text.slice(range.start, range.end)).toBe('foo')
+  })
+
+  it('should cover whole escape sequences', () => {
+    const start = value.indexOf('"')
+
+    const range = mapEditedRangeToDocument(offsetMap, value, value, { start, end: start + 4 })
+
+    expect(text.slice(range.start, range.end)).toBe('\\"é\\"\\n')
+  })
+
+  it('should follow unsaved edits of the temporary editor', () => {
+    const editedText = value.replace('const', 'let')
+    const start = editedText.indexOf('foo')
+
+    const moved = mapEditedRangeToDocument(offsetMap, value, editedText, { start, end: start + 3 })
+    const edited = mapEditedRangeToDocument(offsetMap, value, editedText, { start: 0, end: 3 })
+
+    expect(text.slice(moved.start, moved.end)).toBe('foo')
+    expect(text.slice(edited.start, edited.end)).toBe('const')
+  })
+})
+
+describe('alignFragment', () => {
+  const fragment = { start: 4, end: 7, value: 'let foo = 1' }
+
+  it('should move the fragment with changes before it and keep it for changes after it', () => {
+    expect(alignFragment(fragment, 'const foo = 1')).toEqual({ start: 6, end: 9, value: 'const foo = 1' })
+    expect(alignFragment(fragment, 'let foo = 2')).toEqual({ start: 4, end: 7, value: 'let foo = 2' })
+    expect(alignFragment(fragment, 'let foo = 1')).toBe(fragment)
+  })
+
+  it('should take changes inside or across its edges into the fragment', () => {
+    expect(alignFragment(fragment, 'let fBaroo = 1')).toEqual({ start: 4, end: 10, value: 'let fBaroo = 1' })
+    expect(alignFragment(fragment, 'let x = 1')).toEqual({ start: 4, end: 5, value: 'let x = 1' })
+    expect(alignFragment(fragment, 'var bar = 1')).toEqual({ start: 0, end: 7, value: 'var bar = 1' })
+  })
+})
+
+describe('spliceFragment', () => {
+  it('should write a fragment back with the escapes of the rest of the string', () => {
+    const text = '{ "script": "a = \\"\\u00e9\\"\\nreturn a" }'
+    const target = locateStringTarget(text, ['script'], 'a = "é"\nreturn a')!
+    const start = target.value.indexOf('return')
+
+    const newValue = spliceFragment({ start, end: target.value.length, value: target.value }, 'return "\\n" + a')
+
+    expect(applyReplacement(text, replaceTargetValue(text, target, newValue))).toBe('{ "script": "a = \\"\\u00e9\\"\\nreturn \\"\\\\n\\" + a" }')
+  })
+})
+
+describe('segmentsToKeyPath', () => {
+  it('should format array indices in brackets', () => {
+    expect(segmentsToKeyPath(['config', 'items', 0, 'name'])).toBe('config.items.[0].name')
+  })
+
+  it('should quote keys that would read as something else', () => {
+    expect(segmentsToKeyPath(['config', 'a.b', '[0]', ''])).toBe('config.["a.b"].["[0]"].[""]')
+  })
+})
+
+describe('isAmbiguousPath', () => {
+  it('should detect paths shared by several strings', () => {
+    expect(isAmbiguousPath('{ "a": "x", "a": "y" }', ['a'])).toBe(true)
+    expect(isAmbiguousPath('{ "a": "x", "b": "y" }', ['a'])).toBe(false)
+    expect(isAmbiguousPath('{ "a": "x" }', ['missing'])).toBe(false)
+    expect(isAmbiguousPath('{ "a": ["x"], "a": "y" }', ['a'])).toBe(true)
+    expect(isAmbiguousPath('{ "a": { "b": "x" "b": "y" }', ['a', 'b'])).toBe(true)
+  })
+})
+
+describe('toJsonPointer', () => {
+  it('should escape "~" and "/" and keep other keys as they are', () => {
+    expect(toJsonPointer(['config', 'a/b', 'm~n', 0, 'name'])).toBe('/config/a~1b/m~0n/0/name')
+    expect(toJsonPointer([])).toBe('')
+  })
+
+  it('should give different pointers for paths that share a key path', () => {
+    expect(toJsonPointer(['a.b'])).not.toBe(toJsonPointer(['a', 'b']))
+    expect(toJsonPointer(['', 'a'])).not.toBe(toJsonPointer(['a']))
+  })
+})
+
+describe('isSamePath', () => {
+  it('should compare segments and their types', () => {
+    expect(isSamePath(['items', 0], ['items', 0])).toBe(true)
+    expect(isSamePath(['items', 0], ['items', '0'])).toBe(false)
+    expect(isSamePath(['a.b'], ['a', 'b'])).toBe(false)
+  })
+})
@@ -0,0 +1,77 @@
+import type * as vscode from 'vscode'
+import { describe, expect, it } from 'vitest'
+import { Uri } from 'vscode'
+import { LanguageMemory } from '../src/languageMemory'
+
+function createMemento(): vscode.Memento {
+  const values = new Map<string, unknown>()
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+    update: async (key: string, value: unknown) => {
+      if (value === undefined) {
+        values.delete(key)
+      }
+      else {
+        values.set(key, value)
+      }
+    },
+  } as vscode.Memento
+}
+
+const flow = Uri.file('/projects/app/flow.json')
+const other = Uri.file('/projects/app/other.json')
+
+describe('languageMemory', () => {
+  it('should remember the language per file and path', async () => {
+    const memory = new LanguageMemory(createMemento())
+
+    await memory.remember(flow, ['nodes', 0, 'script'], 'script', 'typescript')
+    await memory.remember(other, ['nodes', 0, 'script'], 'script', 'python')
+
+    expect(memory.get(flow, ['nodes', 0, 'script'], 'script')).toBe('typescript')
+    expect(memory.get(other, ['nodes', 0, 'script'], 'script')).toBe('python')
+  })
+
+  it('should tell apart keys containing dots from nested keys', async () => {
+    const memory = new LanguageMemory(createMemento())
+
+    await memory.remember(flow, ['a.b'], '', 'sql')
+    await memory.remember(flow, ['a', 'b'], '', 'python')
+
+    expect(memory.get(flow, ['a.b'], '')).toBe('sql')
+    expect(memory.get(flow, ['a', 'b'], '')).toBe('python')
+  })
+
+  it('should fall back to the last language chosen for the field name', async () => {
+    const memory = new LanguageMemory(createMemento())
+
+    await memory.remember(flow, ['nodes', 0, 'query'], 'query', 'sql')
+
+    expect(memory.get(other, ['steps', 4, 'query'], 'query')).toBe('sql')
+    expect(memory.get(other, ['steps', 4, 'script'], 'script')).toBeUndefined()
+  })
+
+  it('should keep a bounded number of entries, dropping the oldest', async () => {
+    const memory = new LanguageMemory(createMemento())
+
+    for (let index = 0; index <= 500; index++) {
+      await memory.remember(flow, ['items', index], '', 'sql')
+    }
+
+    expect(memory.get(flow, ['items', 0], '')).toBeUndefined()
+    expect(memory.get(flow, ['items', 1], '')).toBe('sql')
+    expect(memory.get(flow, ['items', 500], '')).toBe('sql')
+  })
+
+  it('should forget everything when cleared', async () => {
+    const state = createMemento()
+    const memory = new LanguageMemory(state)
+
+    await memory.remember(flow, ['script'], 'script', 'javascript')
+    await memory.clear()
+
+    expect(memory.get(flow, ['script'], 'script')).toBeUndefined()
+    expect(state.keys()).toEqual([])
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { findLanguageRule, matchKeyPath } from '../src/languageRules'
+
+describe('matchKeyPath', () => {
+  it('should match exact key paths', () => {
+    expect(matchKeyPath('config.script', 'config.script')).toBe(true)
+    expect(matchKeyPath('config.script', 'config.query')).toBe(false)
+    expect(matchKeyPath('config', 'config.script')).toBe(false)
+  })
+
+  it('should match any array index with [*]', () => {
+    expect(matchKeyPath('nodes.[*].script', 'nodes.[3].script')).toBe(true)
+    expect(matchKeyPath('nodes.[*].script', 'nodes.[3].query')).toBe(false)
+    expect(matchKeyPath('nodes.[*].script', 'nodes.[3].inner.script')).toBe(false)
+  })
+
+  it('should match within a segment with *', () => {
+    expect(matchKeyPath('hooks.*Script', 'hooks.preScript')).toBe(true)
+    expect(matchKeyPath('hooks.*', 'hooks.[0]')).toBe(true)
+    expect(matchKeyPath('hooks.*Script', 'hooks.preQuery')).toBe(false)
+  })
+
+  it('should match any number of segments with **', () => {
+    expect(matchKeyPath('**.query', 'query')).toBe(true)
+    expect(matchKeyPath('**.query', 'a.[1].b.query')).toBe(true)
+    expect(matchKeyPath('a.**.query', 'a.query')).toBe(true)
+    expect(matchKeyPath('a.**.query', 'b.c.query')).toBe(false)
+  })
+
+  it('should compare path segments as a whole', () => {
+    expect(matchKeyPath('nodes.[*].script', ['nodes', 3, 'script'])).toBe(true)
+    expect(matchKeyPath('a.b.script', ['a.b', 'script'])).toBe(false)
+    expect(matchKeyPath('*.script', ['a.b', 'script'])).toBe(true)
+    expect(matchKeyPath('**.script', ['', 'script'])).toBe(true)
+  })
+
+  it('should treat other characters literally', () => {
+    expect(matchKeyPath('a+b.(x)', 'a+b.(x)')).toBe(true)
+    expect(matchKeyPath('a+b', 'aab')).toBe(false)
+  })
+})
+
+describe('findLanguageRule', () => {
+  const rules = [
+    { files: '**/flows/*.json', keyPath: 'nodes.[*].script', language: 'typescript' },
+    { keyPath: '**.script', language: 'javascript' },
+  ]
+
+  it('should return the first rule matching file and key path', () => {
+    expect(findLanguageRule(rules, 'nodes.[0].script', () => true)?.language).toBe('typescript')
+  })
+
+  it('should skip rules whose file pattern does not match', () => {
+    expect(findLanguageRule(rules, 'nodes.[0].script', () => false)?.language).toBe('javascript')
+  })
+
+  it('should ignore malformed rules', () => {
+    const malformed = [{ keyPath: 'script' }, null, { keyPath: 'script', language: 'sql' }] as any[]
+
+    expect(findLanguageRule(malformed, 'script', () => true)?.language).toBe('sql')
+  })
+
+  it('should return undefined when no rule matches', () => {
+    expect(findLanguageRule(rules, 'nodes.[0].query', () => true)).toBeUndefined()
+  })
+})
@@ -102,4 +102,50 @@ describe('LanguageSelector', () => {
     // Pass JavaScript code, should be auto-detected
     await LanguageSelector.showLanguageSelector('script', 'function test() { console.log("hello"); }')
   })
- })
+
+  it('should recommend the remembered language instead of detecting one', async () => {
+    vi.mocked(vscode.languages.getLanguages).mockResolvedValue(['javascript', 'python', 'sql'])
+    vi.mocked(vscode.window.showQuickPick).mockImplementation((items) => {
+      const sortedItems = items as vscode.QuickPickItem[]
+      expect(sortedItems[1].label).toBe('SQL (sql)')
+      expect(sortedItems[1].description).toContain('Last used')
+      return Promise.resolve(undefined)
+    })
+
+    await LanguageSelector.showLanguageSelector('script', 'function test() { console.log("hello"); }', 'sql')
+
+    expect(vscode.window.showQuickPick).toHaveBeenCalled()
+  })
+
+  it('should prefer configured field name keywords over the built-in ones', async () => {
+    const configuration = vscode.workspace.getConfiguration()
+    const originalGet = vi.mocked(configuration.get).getMockImplementation()
+    vi.mocked(configuration.get).mockImplementation((key: string, defaultValue?: unknown) =>
+      key === 'fieldNameKeywords' ? { sql: ['filter'], javascript: [] } : defaultValue)
+
+    expect(await LanguageSelector.detectLanguage('userFilter')).toBe('sql')
+    // Built-in keywords of an overridden language are replaced
+    expect(await LanguageSelector.detectLanguage('script')).toBe('python')
+
+    vi.mocked(configuration.get).mockImplementation(originalGet!)
+    expect(await LanguageSelector.detectLanguage('script')).toBe('javascript')
+  })
+
+  it('should ignore empty configured field name keywords', async () => {
+    const configuration = vscode.workspace.getConfiguration()
+    const originalGet = vi.mocked(configuration.get).getMockImplementation()
+    vi.mocked(configuration.get).mockImplementation((key: string, defaultValue?: unknown) =>
+      key === 'fieldNameKeywords' ? { sql: ['', '  ', 'filter'] } : defaultValue)
+
+    expect(await LanguageSelector.detectLanguage('userFilter')).toBe('sql')
+    expect(await LanguageSelector.detectLanguage('script')).toBe('javascript')
+
+    vi.mocked(configuration.get).mockImplementation(originalGet!)
+  })
+
+  it('should detect JSON-encoded objects and arrays as JSON', async () => {
+    expect(await LanguageSelector.detectLanguage('body', '{"query": "SELECT * FROM users WHERE id = 1"}')).toBe('json')
+    expect(await LanguageSelector.detectLanguage('body', '[{"run": "echo hello"}]')).toBe('json')
+    expect(await LanguageSelector.detectLanguage('body', '{ SELECT * FROM users }')).toBe('sql')
+  })
+})
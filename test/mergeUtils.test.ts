@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { mergeThreeWay } from '../src/mergeUtils'
+
+const base = 'function run() {\n  const a = 1\n  const b = 2\n  const c = 3\n  return a + b + c\n}\n'
+
+describe('mergeThreeWay', () => {
+  it('should take the changed side when the other side is unchanged', () => {
+    const theirs = base.replace('const a = 1', 'const a = 10')
+
+    expect(mergeThreeWay(base, base, theirs)).toEqual({ text: theirs, conflicts: 0 })
+    expect(mergeThreeWay(base, theirs, base)).toEqual({ text: theirs, conflicts: 0 })
+  })
+
+  it('should combine non-overlapping changes', () => {
+    const mine = base.replace('const a = 1', 'const a = 10')
+    const theirs = base.replace('return a + b + c', 'return a * b * c')
+
+    const result = mergeThreeWay(base, mine, theirs)
+
+    expect(result.conflicts).toBe(0)
+    expect(result.text).toBe(base.replace('const a = 1', 'const a = 10').replace('return a + b + c', 'return a * b * c'))
+  })
+
+  it('should accept identical changes on both sides', () => {
+    const changed = base.replace('const b = 2', 'const b = 20')
+
+    expect(mergeThreeWay(base, changed, `${changed}`)).toEqual({ text: changed, conflicts: 0 })
+  })
+
+  it('should mark conflicting changes to the same line', () => {
+    const mine = base.replace('const b = 2', 'const b = 20')
+    const theirs = base.replace('const b = 2', 'const b = 200')
+
+    const result = mergeThreeWay(base, mine, theirs)
+
+    expect(result.conflicts).toBe(1)
+    expect(result.text).toBe([
+      'function run() {\n',
+      '  const a = 1\n',
+      '<<<<<<< Mine\n',
+      '  const b = 20\n',
+      '=======\n',
+      '  const b = 200\n',
+      '>>>>>>> Theirs\n',
+      '  const c = 3\n',
+      '  return a + b + c\n',
+      '}\n',
+    ].join(''))
+  })
+
+  it('should mark a deletion against an edit as conflict', () => {
+    const mine = base.replace('  const c = 3\n', '')
+    const theirs = base.replace('const c = 3', 'const c = 30')
+
+    const result = mergeThreeWay(base, mine, theirs)
+
+    expect(result.conflicts).toBe(1)
+    expect(result.text).toContain('<<<<<<< Mine\n=======\n  const c = 30\n>>>>>>> Theirs\n')
+  })
+
+  it('should keep markers on their own lines when the last line has no line break', () => {
+    const result = mergeThreeWay('x = 1', 'x = 2', 'x = 3')
+
+    expect(result).toEqual({ text: '<<<<<<< Mine\nx = 2\n=======\nx = 3\n>>>>>>> Theirs\n', conflicts: 1 })
+  })
+
+  it('should count separate conflicts', () => {
+    const mine = base.replace('const a = 1', 'const a = 11').replace('return a + b + c', 'return 0')
+    const theirs = base.replace('const a = 1', 'const a = 12').replace('return a + b + c', 'return 1')
+
+    expect(mergeThreeWay(base, mine, theirs).conflicts).toBe(2)
+  })
+})
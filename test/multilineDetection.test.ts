@@ -29,7 +29,8 @@ describe('multiline code detection', () => {
     const result = await detector.detectCodeAtPosition(document, new Position(1, 20))
 
     expect(result).not.toBeNull()
-    expect(result?.code).toContain('Hello\nWorld')
-    expect(result?.code).toContain('/d+/g')
+    // Escapes inside the code are kept, the JSON string is only decoded once
+    expect(result?.code).toContain('const str = \'Hello\\nWorld\'')
+    expect(result?.code).toContain('/\\d+/g')
   })
 })
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { beforeEach, describe, expect, it } from 'vitest'
 import { CodeDetector } from '../src/codeDetector'
-import { Position, TextDocument, workspace, Uri } from 'vscode'
+import { Position, Selection, TextDocument, workspace, Uri } from 'vscode'
 
 describe('right click code detection', () => {
   let detector: CodeDetector
@@ -82,6 +82,54 @@ describe('right click code detection', () => {
     expect(result?.fieldName).toBe('adaptor')
   })
 
+  it('should give strings of a partially written file their real key path', async () => {
+    const uri = Uri.joinPath(Uri.file(process.cwd()), 'examples/test-right-click-partial.json')
+    const document = await workspace.openTextDocument(uri)
+
+    // The file misses a comma between the array elements and ends inside the "config" object
+    const element = await detector.detectCodeAtPosition(document, new Position(3, 20))
+    const nested = await detector.detectCodeAtPosition(document, new Position(6, 18))
+
+    expect(element?.path).toEqual(['nodes', 1, 'script'])
+    expect(element?.code).toBe('return 2')
+    expect(nested?.path).toEqual(['config', 'script'])
+    expect(nested?.keyPath).toBe('config.script')
+  })
+
+  it('should open the whole array when the cursor is on a line of a line field', async () => {
+    const uri = Uri.joinPath(Uri.file(process.cwd()), 'examples/test-array-lines.json')
+    const document = await workspace.openTextDocument(uri)
+
+    const onElement = await detector.detectCodeAtPosition(document, new Position(3, 10))
+    const betweenElements = await detector.detectCodeAtPosition(document, new Position(2, 34))
+
+    expect(onElement?.arrayLines).toBe(true)
+    expect(onElement?.path).toEqual(['script'])
+    expect(onElement?.code).toBe('const total = items.length\nreturn total')
+    expect(betweenElements?.arrayLines).toBe(true)
+  })
+
+  it('should edit arrays of other fields as lines only when asked', async () => {
+    const uri = Uri.joinPath(Uri.file(process.cwd()), 'examples/test-right-click-array.json')
+    const document = await workspace.openTextDocument(uri)
+    const position = new Position(2, 10)
+
+    const element = await detector.detectCodeAtPosition(document, position)
+    const array = await detector.detectArrayLinesAtPosition(document, position)
+
+    expect(element?.path).toEqual(['adaptor', 0])
+    expect(array?.path).toEqual(['adaptor'])
+    expect(array?.fieldName).toBe('adaptor')
+    expect(array?.code).toBe('function first() { return 1; }\nfunction second() { return 2; }')
+  })
+
+  it('should not edit arrays holding anything but single-line strings as lines', async () => {
+    const uri = Uri.joinPath(Uri.file(process.cwd()), 'examples/test-array-lines.json')
+    const document = await workspace.openTextDocument(uri)
+
+    expect(await detector.detectArrayLinesAtPosition(document, new Position(6, 16))).toBeNull()
+  })
+
   it('should detect content in adaptor field', async () => {
     const uri = Uri.joinPath(Uri.file(process.cwd()), 'examples/test-right-click-adaptor.json')
     const document = await workspace.openTextDocument(uri)
@@ -133,4 +181,47 @@ describe('right click code detection', () => {
     // Bug fix: keyPath should be "body", not "page.body"
     expect(result?.keyPath).toBe('body')
   })
+
+  it('should keep keys containing dots, brackets or nothing as single path segments', async () => {
+    const uri = Uri.joinPath(Uri.file(process.cwd()), 'examples/test-keypath-special-keys.json')
+    const document = await workspace.openTextDocument(uri)
+
+    const dotted = await detector.detectCodeAtPosition(document, new Position(1, 26))
+    const bracketed = await detector.detectCodeAtPosition(document, new Position(3, 26))
+    const empty = await detector.detectCodeAtPosition(document, new Position(4, 26))
+    const element = await detector.detectCodeAtPosition(document, new Position(5, 30))
+
+    expect(dotted?.path).toEqual(['a.b', 'script'])
+    expect(bracketed?.path).toEqual(['[0]', 'script'])
+    expect(empty?.path).toEqual(['', 'script'])
+    expect(element?.path).toEqual(['list', 0, 'script'])
+  })
+
+  it('should open the selected part of a string as a fragment of its value', async () => {
+    const text = '{\n  "script": "function a() {}\\nfunction b() { return \\"\\u00e9\\" }",\n  "lines": ["a", "b"]\n}'
+    const document = await workspace.openTextDocument({ content: text })
+    const select = (start: number, end: number) => new Selection(document.positionAt(start), document.positionAt(end))
+    const secondStart = text.indexOf('function b')
+    const escapeStart = text.indexOf('\\u00e9')
+
+    // Ends inside an escape sequence take the whole character
+    const fragment = await detector.detectSelectedFragment(document, select(secondStart, escapeStart + 2))
+    const whole = await detector.detectSelectedFragment(document, select(text.indexOf('"function'), text.indexOf('",')))
+
+    expect(fragment?.code).toBe('function b() { return "é')
+    expect(fragment?.path).toEqual(['script'])
+    expect(fragment?.fragment).toEqual({ start: 16, end: 40, value: 'function a() {}\nfunction b() { return "é" }' })
+    expect(whole?.fragment).toBeUndefined()
+    expect(whole?.code).toBe('function a() {}\nfunction b() { return "é" }')
+  })
+
+  it('should not open fragments of empty selections, several strings or arrays edited as lines', async () => {
+    const text = '{\n  "script": "a()",\n  "lines": ["a", "b"]\n}'
+    const document = await workspace.openTextDocument({ content: text })
+    const select = (start: number, end: number) => new Selection(document.positionAt(start), document.positionAt(end))
+
+    expect(await detector.detectSelectedFragment(document, select(text.indexOf('a()'), text.indexOf('a()')))).toBeNull()
+    expect(await detector.detectSelectedFragment(document, select(text.indexOf('a()'), text.indexOf('"a"')))).toBeNull()
+    expect(await detector.detectSelectedFragment(document, select(text.indexOf('"a"') + 1, text.indexOf('"a"') + 2))).toBeNull()
+  })
 })
\ No newline at end of file
@@ -0,0 +1,113 @@
+import type { JSONSchema } from '../src/schemaUtils'
+import { describe, expect, it } from 'vitest'
+import { Position, Uri, workspace } from 'vscode'
+import { CodeDetector } from '../src/codeDetector'
+import { getMediaTypeLanguage, getStringSchemaInfo, resolveSchemaReference } from '../src/schemaUtils'
+
+const schema: JSONSchema = {
+  type: 'object',
+  properties: {
+    script: { 'type': 'string', 'x-language': 'javascript' },
+    steps: {
+      type: 'array',
+      items: { $ref: '#/$defs/step' },
+    },
+    pair: {
+      type: 'array',
+      prefixItems: [{ type: 'string', contentMediaType: 'text/html' }, { type: 'string', format: 'uri' }],
+    },
+    logo: { type: 'string', contentEncoding: 'base64', contentMediaType: 'image/png' },
+    level: { type: 'string', enum: ['debug', 'info'] },
+  },
+  patternProperties: {
+    '^on[A-Z]': { type: 'string', contentMediaType: 'text/javascript; charset=utf-8' },
+  },
+  $defs: {
+    step: {
+      allOf: [
+        { properties: { name: { type: 'string' } } },
+        { properties: { run: { type: 'string', contentMediaType: 'application/x-sh' } } },
+      ],
+    },
+  },
+} as JSONSchema
+
+describe('getStringSchemaInfo', () => {
+  it('should read x-language and contentMediaType', () => {
+    expect(getStringSchemaInfo(schema, ['script'])).toEqual({ language: 'javascript', isCode: true })
+    expect(getStringSchemaInfo(schema, ['onClick'])).toEqual({ language: 'javascript', isCode: true })
+  })
+
+  it('should follow references, combinators and array items', () => {
+    expect(getStringSchemaInfo(schema, ['steps', 2, 'run'])).toEqual({ language: 'shellscript', isCode: true })
+    expect(getStringSchemaInfo(schema, ['steps', 0, 'name'])).toEqual({ isCode: true })
+    expect(getStringSchemaInfo(schema, ['pair', 0])).toEqual({ language: 'html', isCode: true })
+  })
+
+  it('should not count formatted, enumerated or encoded values as code', () => {
+    expect(getStringSchemaInfo(schema, ['pair', 1])?.isCode).toBe(false)
+    expect(getStringSchemaInfo(schema, ['logo'])?.isCode).toBe(false)
+    expect(getStringSchemaInfo(schema, ['level'])?.isCode).toBe(false)
+  })
+
+  it('should return undefined for values the schema does not describe', () => {
+    expect(getStringSchemaInfo(schema, ['unknown'])).toBeUndefined()
+    expect(getStringSchemaInfo(schema, ['script', 'nested'])).toBeUndefined()
+  })
+
+  it('should not loop on recursive references', () => {
+    const recursive = { $ref: '#', properties: { child: { $ref: '#' } } } as JSONSchema
+
+    expect(getStringSchemaInfo(recursive, ['child', 'child', 'missing'])).toBeUndefined()
+  })
+})
+
+describe('getMediaTypeLanguage', () => {
+  it('should map media types case-insensitively', () => {
+    expect(getMediaTypeLanguage('Application/SQL')).toBe('sql')
+    expect(getMediaTypeLanguage('image/png')).toBeUndefined()
+  })
+})
+
+describe('resolveSchemaReference', () => {
+  const base = Uri.file('/projects/app/config')
+
+  it('should resolve relative paths against the base', () => {
+    expect(resolveSchemaReference('./schema.json', base)?.path).toBe('/projects/app/config/schema.json')
+    expect(resolveSchemaReference('../schema.json', base)?.path).toBe('/projects/app/schema.json')
+    expect(resolveSchemaReference('./schema.json', undefined)).toBeUndefined()
+  })
+
+  it('should accept absolute paths and local URIs', () => {
+    expect(resolveSchemaReference('/schemas/a.json', base)?.toString()).toBe('file:///schemas/a.json')
+    expect(resolveSchemaReference('file:///schemas/a.json', base)?.toString()).toBe('file:///schemas/a.json')
+  })
+
+  it('should not resolve remote schemas', () => {
+    expect(resolveSchemaReference('https://json.schemastore.org/package.json', base)).toBeUndefined()
+  })
+})
+
+describe('schema based detection', () => {
+  async function detectAt(line: number, character: number) {
+    const uri = Uri.joinPath(Uri.file(process.cwd()), 'examples/test-schema.json')
+    const document = await workspace.openTextDocument(uri)
+    return new CodeDetector().detectCodeAtPosition(document, new Position(line, character))
+  }
+
+  it('should take the language from the schema', async () => {
+    expect((await detectAt(4, 20))?.language).toBe('sql')
+    expect((await detectAt(5, 20))?.language).toBe('typescript')
+  })
+
+  it('should skip strings the schema describes as not code', async () => {
+    expect(await detectAt(8, 20)).toBeNull()
+  })
+
+  it('should keep strings the schema does not describe', async () => {
+    const result = await detectAt(9, 15)
+
+    expect(result?.code).toBe('free text')
+    expect(result?.language).toBeUndefined()
+  })
+})
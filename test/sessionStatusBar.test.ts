@@ -0,0 +1,79 @@
+import type { StatusBarItem, TextDocumentChangeEvent, TextEditor } from 'vscode'
+import type { SessionStatus, SessionStatusSource } from '../src/sessionStatusBar'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Uri, window, workspace } from 'vscode'
+import { SessionStatusBar } from '../src/sessionStatusBar'
+
+describe('sessionStatusBar', () => {
+  const tempUri = Uri.file('/tmp/vscode-json-string-code-editor/1a2b3c4d/flow.json › nodes.[3].script.js')
+  let item: StatusBarItem
+  let activeUri: Uri | undefined
+  let statusBar: SessionStatusBar
+  let changeDocument: (event: TextDocumentChangeEvent) => void
+
+  beforeEach(() => {
+    item = { show: vi.fn(), hide: vi.fn(), dispose: vi.fn() } as unknown as StatusBarItem
+    activeUri = tempUri
+
+    vi.spyOn(window, 'createStatusBarItem').mockReturnValue(item)
+    vi.spyOn(window, 'onDidChangeActiveTextEditor').mockReturnValue({ dispose: () => {} })
+    vi.spyOn(window, 'activeTextEditor', 'get').mockImplementation(() => activeUri && { document: { uri: activeUri } } as TextEditor)
+    vi.spyOn(workspace, 'onDidChangeTextDocument').mockImplementation((listener) => {
+      changeDocument = listener
+      return { dispose: () => {} }
+    })
+    vi.spyOn(workspace, 'onDidChangeConfiguration').mockReturnValue({ dispose: () => {} })
+    vi.spyOn(workspace, 'asRelativePath').mockImplementation(uri => typeof uri === 'string' ? uri : uri.path.slice(1))
+  })
+
+  afterEach(() => {
+    statusBar.dispose()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  function createSource(status: Partial<SessionStatus> = {}): SessionStatusSource {
+    return {
+      onDidChangeSessions: () => ({ dispose: () => {} }),
+      getTempUris: () => [tempUri],
+      getSessionStatus: uri => uri.toString() === tempUri.toString()
+        ? { sourceUri: Uri.file('/flow.json'), keyPaths: ['nodes.[3].script'], language: 'javascript', syncState: 'synced', ...status }
+        : undefined,
+    }
+  }
+
+  it('should show the string of the focused temporary editor and go to it on click', () => {
+    statusBar = new SessionStatusBar(createSource({ keyPaths: ['body', 'query'], syncState: 'modified' }))
+
+    expect(item.show).toHaveBeenCalled()
+    expect(item.text).toBe('$(circle-filled) flow.json › body › query')
+    expect(item.tooltip).toContain('Language: javascript')
+    expect(item.command).toMatchObject({ command: 'vscode-json-string-code-editor.goToSource', arguments: [tempUri] })
+  })
+
+  it('should hide while other editors are focused', () => {
+    statusBar = new SessionStatusBar(createSource())
+
+    activeUri = Uri.file('/flow.json')
+    statusBar.update()
+
+    expect(item.hide).toHaveBeenCalled()
+  })
+
+  it('should update once typing in the temporary document or its JSON file pauses', () => {
+    vi.useFakeTimers()
+    const source = createSource()
+    const getSessionStatus = vi.spyOn(source, 'getSessionStatus')
+    statusBar = new SessionStatusBar(source)
+    getSessionStatus.mockClear()
+
+    changeDocument({ document: { uri: Uri.file('/other.json') } } as TextDocumentChangeEvent)
+    vi.advanceTimersByTime(1000)
+    expect(getSessionStatus).not.toHaveBeenCalled()
+
+    changeDocument({ document: { uri: tempUri } } as TextDocumentChangeEvent)
+    changeDocument({ document: { uri: Uri.file('/flow.json') } } as TextDocumentChangeEvent)
+    vi.advanceTimersByTime(1000)
+    expect(getSessionStatus).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,86 @@
+import type * as vscode from 'vscode'
+import type { PersistedSession } from '../src/sessionStore'
+import { describe, expect, it } from 'vitest'
+import { getSessionPath, loadSessions, saveSessions, SESSION_STATE_KEY } from '../src/sessionStore'
+
+function createMemento(initial: Record<string, unknown> = {}): vscode.Memento {
+  const values = new Map(Object.entries(initial))
+  return {
+    keys: () => [...values.keys()],
+    get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+    update: async (key: string, value: unknown) => {
+      if (value === undefined) {
+        values.delete(key)
+      }
+      else {
+        values.set(key, value)
+      }
+    },
+  } as vscode.Memento
+}
+
+const session: PersistedSession = {
+  uniqueKey: 'config.json::/script',
+  safeFileName: 'script_1a2b3c4d.js',
+  tempUri: 'json-string:/config.json/script_1a2b3c4d.js',
+  originalUri: 'file:///workspace/config.json',
+  path: ['script'],
+  keyPath: 'script',
+  fieldName: 'script',
+  language: 'javascript',
+  originalCode: 'console.log(1)',
+  start: 12,
+  end: 28,
+}
+
+describe('sessionStore', () => {
+  it('should round-trip sessions', async () => {
+    const state = createMemento()
+
+    await saveSessions(state, [session])
+
+    expect(loadSessions(state)).toEqual([session])
+  })
+
+  it('should clear the stored value when no sessions remain', async () => {
+    const state = createMemento()
+
+    await saveSessions(state, [session])
+    await saveSessions(state, [])
+
+    expect(state.keys()).toEqual([])
+    expect(loadSessions(state)).toEqual([])
+  })
+
+  it('should ignore malformed entries', () => {
+    const { language: _language, ...withoutLanguage } = session
+    const state = createMemento({
+      [SESSION_STATE_KEY]: [session, withoutLanguage, { ...session, start: '12' }, { ...session, path: 'script' }, { ...session, openedCode: 1 }, null, 'invalid'],
+    })
+
+    expect(loadSessions(state)).toEqual([session, withoutLanguage])
+  })
+
+  it('should keep fragments and ignore sessions with malformed ones', () => {
+    const withFragment = { ...session, originalCode: 'log', fragment: { start: 8, end: 11, value: 'console.log(1)' } }
+    const state = createMemento({
+      [SESSION_STATE_KEY]: [withFragment, { ...withFragment, fragment: { start: 8, end: 20, value: 'console.log(1)' } }, { ...withFragment, fragment: { start: 8, end: 11 } }],
+    })
+
+    expect(loadSessions(state)).toEqual([withFragment])
+  })
+
+  it('should fall back to the key path for sessions stored without a path', () => {
+    const { path: _path, ...withoutPath } = session
+    const state = createMemento({ [SESSION_STATE_KEY]: [{ ...withoutPath, keyPath: 'nodes.[0].script' }] })
+
+    const [loaded] = loadSessions(state)
+
+    expect(getSessionPath(loaded)).toEqual(['nodes', 0, 'script'])
+    expect(getSessionPath(session)).toEqual(['script'])
+  })
+
+  it('should ignore a stored value that is not a list', () => {
+    expect(loadSessions(createMemento({ [SESSION_STATE_KEY]: { session } }))).toEqual([])
+  })
+})
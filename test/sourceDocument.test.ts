@@ -0,0 +1,117 @@
+import type { TextDocument, WorkspaceFolder } from 'vscode'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Uri, workspace } from 'vscode'
+import { logger } from '../src/logger'
+import { createDocumentSnapshot, findOpenDocument, getSourceDisplayPath, openSourceDocument } from '../src/sourceDocument'
+
+const folderA = { uri: Uri.file('/projects/a'), name: 'a', index: 0 } as WorkspaceFolder
+const folderB = { uri: Uri.file('/projects/b'), name: 'b', index: 1 } as WorkspaceFolder
+
+function createDocument(uri: Uri): TextDocument {
+  return { uri, getText: () => '{}' } as unknown as TextDocument
+}
+
+describe('sourceDocument', () => {
+  let openDocuments: TextDocument[]
+
+  beforeEach(() => {
+    openDocuments = []
+    vi.spyOn(workspace, 'textDocuments', 'get').mockImplementation(() => openDocuments)
+    // Multi-root workspace with folders "a" and "b"
+    vi.spyOn(workspace, 'getWorkspaceFolder').mockImplementation(uri =>
+      [folderA, folderB].find(folder => uri.scheme === 'file' && uri.path.startsWith(`${folder.uri.path}/`)))
+    vi.spyOn(workspace, 'asRelativePath').mockImplementation((pathOrUri) => {
+      const uri = typeof pathOrUri === 'string' ? Uri.file(pathOrUri) : pathOrUri
+      const folder = workspace.getWorkspaceFolder(uri)
+      return folder ? `${folder.name}${uri.path.slice(folder.uri.path.length)}` : uri.fsPath
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('openSourceDocument', () => {
+    it('should find a document in the second folder of a multi-root workspace', async () => {
+      const first = createDocument(Uri.file('/projects/a/config.json'))
+      const second = createDocument(Uri.file('/projects/b/config.json'))
+      openDocuments.push(first, second)
+
+      expect(await openSourceDocument(Uri.file('/projects/b/config.json'))).toBe(second)
+    })
+
+    it('should open a file outside the workspace that is no longer loaded', async () => {
+      const uri = Uri.file('/tmp/outside.json')
+      const document = createDocument(uri)
+      const open = vi.spyOn(workspace, 'openTextDocument').mockResolvedValue(document)
+
+      expect(findOpenDocument(uri)).toBeUndefined()
+      expect(await openSourceDocument(uri)).toBe(document)
+      expect(open).toHaveBeenCalledWith(uri)
+    })
+
+    it('should open documents of other schemes', async () => {
+      const uri = Uri.parse('vscode-vfs://github/owner/repo/config.json')
+      const document = createDocument(uri)
+      vi.spyOn(workspace, 'openTextDocument').mockResolvedValue(document)
+
+      expect(await openSourceDocument(uri)).toBe(document)
+    })
+
+    it('should find an open untitled buffer', async () => {
+      const document = createDocument(Uri.parse('untitled:Untitled-1'))
+      openDocuments.push(document)
+
+      expect(await openSourceDocument(Uri.parse('untitled:Untitled-1'))).toBe(document)
+    })
+
+    it('should not reopen a closed untitled buffer', async () => {
+      const open = vi.spyOn(workspace, 'openTextDocument')
+
+      expect(await openSourceDocument(Uri.parse('untitled:Untitled-1'))).toBeUndefined()
+      expect(open).not.toHaveBeenCalled()
+    })
+
+    it('should return undefined when the document cannot be opened', async () => {
+      vi.spyOn(workspace, 'openTextDocument').mockRejectedValue(new Error('File not found'))
+      const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+
+      expect(await openSourceDocument(Uri.file('/tmp/deleted.json'))).toBeUndefined()
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('File not found'))
+    })
+  })
+
+  describe('getSourceDisplayPath', () => {
+    it('should keep files with the same relative path in different folders apart', () => {
+      expect(getSourceDisplayPath(Uri.file('/projects/a/config.json'))).toBe('a/config.json')
+      expect(getSourceDisplayPath(Uri.file('/projects/b/config.json'))).toBe('b/config.json')
+    })
+
+    it('should prefix documents outside the workspace with their scheme and authority', () => {
+      expect(getSourceDisplayPath(Uri.file('/tmp/outside.json'))).toBe('file/tmp/outside.json')
+      expect(getSourceDisplayPath(Uri.parse('untitled:Untitled-1'))).toBe('untitled/Untitled-1')
+      expect(getSourceDisplayPath(Uri.parse('vscode-vfs://github/owner/repo/config.json'))).toBe('vscode-vfs/github/owner/repo/config.json')
+    })
+  })
+
+  describe('createDocumentSnapshot', () => {
+    it('should convert offsets to positions for all line endings', () => {
+      const snapshot = createDocumentSnapshot(Uri.file('/projects/a/flow.json'), 'a\nbc\r\nd\re')
+
+      expect([0, 2, 3, 6, 8, 9].map(offset => snapshot.offsetAt(snapshot.positionAt(offset)))).toEqual([0, 2, 3, 6, 8, 9])
+      expect([0, 2, 3, 6, 8, 9].map(offset => [snapshot.positionAt(offset).line, snapshot.positionAt(offset).character])).toEqual([
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [2, 0],
+        [3, 0],
+        [3, 1],
+      ])
+    })
+
+    it('should take the language from the file extension', () => {
+      expect(createDocumentSnapshot(Uri.file('/projects/a/flow.json'), '{}').languageId).toBe('json')
+      expect(createDocumentSnapshot(Uri.file('/projects/a/settings.JSONC'), '{}').languageId).toBe('jsonc')
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { applyReplacement } from '../src/jsonUtils'
+import { computeMinimalReplacement, shiftRangeThroughChange } from '../src/textUtils'
+
+describe('computeMinimalReplacement', () => {
+  it('should return null for identical texts', () => {
+    expect(computeMinimalReplacement('same', 'same')).toBeNull()
+  })
+
+  it('should only replace the changed middle part', () => {
+    const replacement = computeMinimalReplacement('const a = 1\nconst b = 2', 'const a = 1\nconst b = 3')
+
+    expect(replacement).toEqual({ offset: 22, length: 1, content: '3' })
+  })
+
+  it('should handle insertions and deletions', () => {
+    expect(computeMinimalReplacement('ab', 'aXb')).toEqual({ offset: 1, length: 0, content: 'X' })
+    expect(computeMinimalReplacement('aXb', 'ab')).toEqual({ offset: 1, length: 1, content: '' })
+    expect(computeMinimalReplacement('aaa', 'aaaa')).toEqual({ offset: 3, length: 0, content: 'a' })
+  })
+
+  it('should not split surrogate pairs', () => {
+    const oldText = 'x😀y'
+    const newText = 'x😃y'
+    const replacement = computeMinimalReplacement(oldText, newText)!
+
+    expect(replacement.offset).toBe(1)
+    expect(replacement.content).toBe('😃')
+    expect(applyReplacement(oldText, replacement)).toBe(newText)
+  })
+})
+
+describe('shiftRangeThroughChange', () => {
+  const range = { start: 10, end: 20 }
+
+  it('should shift the range for changes before it', () => {
+    expect(shiftRangeThroughChange(range, { offset: 2, length: 0, content: 'abc' })).toEqual({ start: 13, end: 23 })
+    expect(shiftRangeThroughChange(range, { offset: 2, length: 8, content: '' })).toEqual({ start: 2, end: 12 })
+  })
+
+  it('should keep the range for changes after it', () => {
+    expect(shiftRangeThroughChange(range, { offset: 20, length: 5, content: 'x' })).toEqual(range)
+  })
+
+  it('should resize the range for changes inside it', () => {
+    expect(shiftRangeThroughChange(range, { offset: 12, length: 2, content: 'abcd' })).toEqual({ start: 10, end: 22 })
+  })
+
+  it('should resize the range for changes starting or ending on its boundaries', () => {
+    expect(shiftRangeThroughChange(range, { offset: 10, length: 10, content: '"new"' })).toEqual({ start: 10, end: 15 })
+    expect(shiftRangeThroughChange(range, { offset: 10, length: 3, content: '"' })).toEqual({ start: 10, end: 18 })
+    expect(shiftRangeThroughChange(range, { offset: 15, length: 5, content: 'abc"' })).toEqual({ start: 10, end: 19 })
+  })
+
+  it('should give up when the change crosses the range boundaries', () => {
+    expect(shiftRangeThroughChange(range, { offset: 5, length: 6, content: '' })).toBeNull()
+    expect(shiftRangeThroughChange(range, { offset: 19, length: 2, content: '' })).toBeNull()
+    expect(shiftRangeThroughChange(range, { offset: 8, length: 14, content: '"new"' })).toBeNull()
+  })
+})